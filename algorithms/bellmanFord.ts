@@ -0,0 +1,77 @@
+import { AlgorithmResult, GridGraph, NodeData } from '../types';
+import { findPredecessorCycle, getNodesInShortestPathOrder } from './gridGraph';
+
+/**
+ * Bellman–Ford: relaxes every edge, pass after pass, until no distance improves. Unlike Dijkstra it never
+ * settles a node early, so negative (boost) costs are fine, at O(V·E) time. A negative cycle reachable from
+ * the start is reported instead of a path, since walking it again always makes the route cheaper.
+ */
+export const bellmanFord = (
+  graph: GridGraph,
+  startNode: NodeData,
+  finishNode: NodeData
+): AlgorithmResult => multiSourceBellmanFord(graph, [startNode], [finishNode]);
+
+// Improvements smaller than this are float noise from √2 steps, not a cheaper route
+export const RELAXATION_EPSILON = 1e-9;
+
+// Shared ending for Bellman–Ford and SPFA: the cycle if one was found, otherwise the path to the cheapest finish
+export const toLabelCorrectingResult = (
+  visitedNodesInOrder: NodeData[],
+  finishNodes: NodeData[],
+  negativeCycle: NodeData[] | null
+): AlgorithmResult => {
+  if (negativeCycle) return { visitedNodesInOrder, nodesInShortestPathOrder: [], negativeCycle };
+  const nearestFinish = finishNodes.reduce((nearest, node) => (node.distance < nearest.distance ? node : nearest));
+  return {
+    visitedNodesInOrder,
+    nodesInShortestPathOrder: nearestFinish.distance === Infinity ? [] : getNodesInShortestPathOrder(nearestFinish),
+  };
+};
+
+/**
+ * Bellman–Ford seeded with every start node at distance 0; the path leads to whichever finish ends up cheapest.
+ * Nodes count as visited when they are first reached.
+ */
+export const multiSourceBellmanFord = (
+  graph: GridGraph,
+  startNodes: NodeData[],
+  finishNodes: NodeData[]
+): AlgorithmResult => {
+  const visitedNodesInOrder: NodeData[] = [];
+  const reach = (node: NodeData) => {
+    if (node.isVisited) return;
+    node.isVisited = true;
+    visitedNodesInOrder.push(node);
+  };
+
+  const nodes = graph.grid.flat().filter(node => !node.isWall);
+  for (const startNode of startNodes) {
+    startNode.distance = 0;
+    reach(startNode);
+  }
+
+  // Without a negative cycle the distances settle within V - 1 passes
+  for (let pass = 0; pass < nodes.length; pass++) {
+    let hasImproved = false;
+    for (const node of nodes) {
+      if (node.distance === Infinity) continue;
+      for (const neighbor of graph.getNeighbors(node)) {
+        const newDistance = node.distance + graph.getCost(node, neighbor);
+        if (newDistance < neighbor.distance - RELAXATION_EPSILON) {
+          neighbor.distance = newDistance;
+          neighbor.previousNode = node;
+          reach(neighbor);
+          hasImproved = true;
+        }
+      }
+    }
+    if (!hasImproved) return toLabelCorrectingResult(visitedNodesInOrder, finishNodes, null);
+
+    // A loop in the predecessor links shows up a few passes after its cycle is first relaxed, long before pass V
+    const negativeCycle = findPredecessorCycle(nodes);
+    if (negativeCycle) return toLabelCorrectingResult(visitedNodesInOrder, finishNodes, negativeCycle);
+  }
+
+  return toLabelCorrectingResult(visitedNodesInOrder, finishNodes, findPredecessorCycle(nodes));
+};
@@ -0,0 +1,39 @@
+import { AlgorithmResult, GridGraph, NodeData } from '../types';
+import { getNodesInShortestPathOrder } from './gridGraph';
+
+/**
+ * Breadth-first search: expands the grid in rings of equal step count and ignores terrain costs.
+ * Its path has the fewest steps, which is only the cheapest path on plain 4-way grids.
+ */
+export const bfs = (
+  graph: GridGraph,
+  startNode: NodeData,
+  finishNode: NodeData
+): AlgorithmResult => {
+  const visitedNodesInOrder: NodeData[] = [];
+  // Nodes are marked visited when queued, so each enters the queue once; `head` avoids O(n) shifts
+  const queue: NodeData[] = [startNode];
+  let head = 0;
+  startNode.isVisited = true;
+  startNode.distance = 0;
+
+  while (head < queue.length) {
+    const node = queue[head++];
+    visitedNodesInOrder.push(node);
+
+    if (node === finishNode) {
+      const nodesInShortestPathOrder = getNodesInShortestPathOrder(finishNode);
+      return { visitedNodesInOrder, nodesInShortestPathOrder };
+    }
+
+    for (const neighbor of graph.getNeighbors(node)) {
+      if (neighbor.isVisited) continue;
+      neighbor.isVisited = true;
+      neighbor.distance = node.distance + graph.getCost(node, neighbor);
+      neighbor.previousNode = node;
+      queue.push(neighbor);
+    }
+  }
+
+  return { visitedNodesInOrder, nodesInShortestPathOrder: [] };
+};
@@ -1,4 +1,5 @@
-import { NodeData } from '../types';
+import { AlgorithmResult, GridGraph, NodeData, PriorityQueueType } from '../types';
+import { createPriorityQueue, PriorityQueue } from './priorityQueue';
 
 /**
  * Bidirectional Swarm (A*)
@@ -10,25 +11,9 @@ function getNodeId(node: NodeData): string {
     return `${node.row}-${node.col}`;
 }
 
-// Helper to calculate Manhattan distance
-function getManhattanDistance(nodeA: NodeData, nodeB: NodeData): number {
-  return Math.abs(nodeA.row - nodeB.row) + Math.abs(nodeA.col - nodeB.col);
-}
-
-// Helper to get neighbors (returns all valid grid neighbors, not just unvisited)
-function getNeighbors(node: NodeData, grid: NodeData[][]): NodeData[] {
-  const neighbors: NodeData[] = [];
-  const { col, row } = node;
-  if (row > 0) neighbors.push(grid[row - 1][col]);
-  if (row < grid.length - 1) neighbors.push(grid[row + 1][col]);
-  if (col > 0) neighbors.push(grid[row][col - 1]);
-  if (col < grid[0].length - 1) neighbors.push(grid[row][col + 1]);
-  return neighbors;
-}
-
-// Helper to sort open set
-function sortNodes(nodes: NodeData[], fScoreMap: Map<string, number>) {
-    nodes.sort((a, b) => {
+// Helper to create an open set ordered by f-score
+function createOpenSet(queueType: PriorityQueueType, fScoreMap: Map<string, number>): PriorityQueue<NodeData> {
+    return createPriorityQueue<NodeData>(queueType, (a, b) => {
         const fA = fScoreMap.get(getNodeId(a)) ?? Infinity;
         const fB = fScoreMap.get(getNodeId(b)) ?? Infinity;
         return fA - fB;
@@ -42,21 +27,26 @@ function updateNeighbor(
     gScoreMap: Map<string, number>, 
     fScoreMap: Map<string, number>, 
     visitedMap: Map<string, NodeData>,
-    openSet: NodeData[],
-    targetNode: NodeData
+    openSet: PriorityQueue<NodeData>,
+    targetNode: NodeData,
+    isReverse: boolean,
+    graph: GridGraph
 ) {
-    if (neighbor.isWall) return;
-    
-    const tentativeG = (gScoreMap.get(getNodeId(current)) ?? Infinity) + 1;
+    // The forward search pays for entering `neighbor`. The reverse search walks edges backwards,
+    // so the real move is neighbor -> current and costs the weight of `current`.
+    const edgeCost = isReverse ? graph.getCost(neighbor, current) : graph.getCost(current, neighbor);
+    const tentativeG = (gScoreMap.get(getNodeId(current)) ?? Infinity) + edgeCost;
     const neighborId = getNodeId(neighbor);
     
     if (tentativeG < (gScoreMap.get(neighborId) ?? Infinity)) {
         visitedMap.set(neighborId, current);
         gScoreMap.set(neighborId, tentativeG);
-        const h = getManhattanDistance(neighbor, targetNode);
+        const h = graph.getHeuristic(neighbor, targetNode);
         fScoreMap.set(neighborId, tentativeG + h);
         
-        if (!openSet.includes(neighbor)) {
+        if (openSet.contains(neighbor)) {
+            openSet.decreaseKey(neighbor);
+        } else {
             openSet.push(neighbor);
         }
     }
@@ -88,13 +78,12 @@ function reconstructBidirectionalPath(
 }
 
 export const bidirectionalSwarm = (
-  grid: NodeData[][],
+  graph: GridGraph,
   startNode: NodeData,
-  finishNode: NodeData
-): { visitedNodesInOrder: NodeData[]; nodesInShortestPathOrder: NodeData[] } => {
+  finishNode: NodeData,
+  queueType: PriorityQueueType = 'binaryHeap'
+): AlgorithmResult => {
   const visitedNodesInOrder: NodeData[] = [];
-  const startOpenSet: NodeData[] = [startNode];
-  const finishOpenSet: NodeData[] = [finishNode];
 
   const visitedByStart = new Map<string, NodeData>();
   const visitedByFinish = new Map<string, NodeData>();
@@ -127,13 +116,17 @@ export const bidirectionalSwarm = (
 
   const fScoreStart = new Map<string, number>();
   const fScoreFinish = new Map<string, number>();
-  fScoreStart.set(getNodeId(startNode), getManhattanDistance(startNode, finishNode));
-  fScoreFinish.set(getNodeId(finishNode), getManhattanDistance(finishNode, startNode));
+  fScoreStart.set(getNodeId(startNode), graph.getHeuristic(startNode, finishNode));
+  fScoreFinish.set(getNodeId(finishNode), graph.getHeuristic(finishNode, startNode));
+
+  const startOpenSet = createOpenSet(queueType, fScoreStart);
+  const finishOpenSet = createOpenSet(queueType, fScoreFinish);
+  startOpenSet.push(startNode);
+  finishOpenSet.push(finishNode);
 
-  while (startOpenSet.length > 0 && finishOpenSet.length > 0) {
+  while (!startOpenSet.isEmpty() && !finishOpenSet.isEmpty()) {
     // --- Expand Start Side ---
-    sortNodes(startOpenSet, fScoreStart);
-    const currentStart = startOpenSet.shift()!;
+    const currentStart = startOpenSet.pop()!;
     
     if (!currentStart.isWall) {
         // Visualizer tracking
@@ -150,15 +143,14 @@ export const bidirectionalSwarm = (
             };
         }
 
-        const neighbors = getNeighbors(currentStart, grid);
+        const neighbors = graph.getNeighbors(currentStart);
         for (const neighbor of neighbors) {
-            updateNeighbor(neighbor, currentStart, gScoreStart, fScoreStart, visitedByStart, startOpenSet, finishNode);
+            updateNeighbor(neighbor, currentStart, gScoreStart, fScoreStart, visitedByStart, startOpenSet, finishNode, false, graph);
         }
     }
 
     // --- Expand Finish Side ---
-    sortNodes(finishOpenSet, fScoreFinish);
-    const currentFinish = finishOpenSet.shift()!;
+    const currentFinish = finishOpenSet.pop()!;
 
     if (!currentFinish.isWall) {
         if (!currentFinish.isVisited) {
@@ -174,9 +166,9 @@ export const bidirectionalSwarm = (
             };
         }
 
-        const neighbors = getNeighbors(currentFinish, grid);
+        const neighbors = graph.getNeighbors(currentFinish);
         for (const neighbor of neighbors) {
-            updateNeighbor(neighbor, currentFinish, gScoreFinish, fScoreFinish, visitedByFinish, finishOpenSet, startNode);
+            updateNeighbor(neighbor, currentFinish, gScoreFinish, fScoreFinish, visitedByFinish, finishOpenSet, startNode, true, graph);
         }
     }
   }
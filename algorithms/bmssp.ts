@@ -1,4 +1,6 @@
-import { NodeData } from '../types';
+import { AlgorithmResult, GridGraph, NodeData, PriorityQueueType } from '../types';
+import { getNodesInShortestPathOrder } from './gridGraph';
+import { createPriorityQueue } from './priorityQueue';
 
 /**
  * Implementation of "Breaking the Sorting Barrier for Directed Single-Source Shortest Paths"
@@ -22,89 +24,8 @@ function getAllNodes(grid: NodeData[][]): NodeData[] {
   return nodes;
 }
 
-function getNeighbors(node: NodeData, grid: NodeData[][]): NodeData[] {
-  const neighbors: NodeData[] = [];
-  const { col, row } = node;
-  if (row > 0) neighbors.push(grid[row - 1][col]);
-  if (row < grid.length - 1) neighbors.push(grid[row + 1][col]);
-  if (col > 0) neighbors.push(grid[row][col - 1]);
-  if (col < grid[0].length - 1) neighbors.push(grid[row][col + 1]);
-  return neighbors.filter(n => !n.isWall);
-}
-
 // --- Data Structures ---
 
-// Simplified Min-Heap for BaseCase
-class MinHeap {
-  elements: { node: NodeData, dist: number }[] = [];
-
-  push(node: NodeData, dist: number) {
-    this.elements.push({ node, dist });
-    this.bubbleUp(this.elements.length - 1);
-  }
-
-  pop(): { node: NodeData, dist: number } | undefined {
-    if (this.elements.length === 0) return undefined;
-    const min = this.elements[0];
-    const end = this.elements.pop();
-    if (this.elements.length > 0 && end) {
-      this.elements[0] = end;
-      this.bubbleDown(0);
-    }
-    return min;
-  }
-
-  isEmpty() {
-    return this.elements.length === 0;
-  }
-
-  contains(node: NodeData) {
-    return this.elements.some(e => e.node === node);
-  }
-
-  decreaseKey(node: NodeData, dist: number) {
-    const idx = this.elements.findIndex(e => e.node === node);
-    if (idx !== -1 && dist < this.elements[idx].dist) {
-      this.elements[idx].dist = dist;
-      this.bubbleUp(idx);
-    }
-  }
-
-  private bubbleUp(n: number) {
-    const element = this.elements[n];
-    while (n > 0) {
-      const parentIdx = Math.floor((n + 1) / 2) - 1;
-      const parent = this.elements[parentIdx];
-      if (element.dist >= parent.dist) break;
-      this.elements[parentIdx] = element;
-      this.elements[n] = parent;
-      n = parentIdx;
-    }
-  }
-
-  private bubbleDown(n: number) {
-    const length = this.elements.length;
-    const element = this.elements[n];
-    while (true) {
-      const child2N = (n + 1) * 2;
-      const child1N = child2N - 1;
-      let swap = null;
-      if (child1N < length) {
-        const child1 = this.elements[child1N];
-        if (child1.dist < element.dist) swap = child1N;
-      }
-      if (child2N < length) {
-        const child2 = this.elements[child2N];
-        if (child2.dist < (swap === null ? element.dist : this.elements[child1N].dist)) swap = child2N;
-      }
-      if (swap === null) break;
-      this.elements[n] = this.elements[swap];
-      this.elements[swap] = element;
-      n = swap;
-    }
-  }
-}
-
 // Structure D from Lemma 3.3
 // Simulates the Insert, Pull, BatchPrepend operations.
 class StructureD {
@@ -172,7 +93,16 @@ class StructureD {
 let k_param: number;
 let t_param: number;
 let visitedNodesInOrder: NodeData[] = [];
-let gridRef: NodeData[][];
+let recordedNodes = new Set<NodeData>();
+let graphRef: GridGraph;
+let queueTypeRef: PriorityQueueType = 'binaryHeap';
+
+// Nodes are scanned and settled repeatedly across recursion levels; the animation shows each one once, when first touched
+function recordVisit(node: NodeData) {
+  if (recordedNodes.has(node)) return;
+  recordedNodes.add(node);
+  visitedNodesInOrder.push(node);
+}
 
 // --- Algorithm Modules ---
 
@@ -186,9 +116,9 @@ function findPivots(B: number, S: NodeData[]): { P: NodeData[], W: NodeData[] }
     const W_curr = new Set<NodeData>();
     
     for (const u of W_prev) {
-      const neighbors = getNeighbors(u, gridRef);
+      const neighbors = graphRef.getNeighbors(u);
       for (const v of neighbors) {
-        const weight = 1; 
+        const weight = graphRef.getCost(u, v);
         // Relaxation check
         if (u.distance + weight <= v.distance) {
           v.distance = u.distance + weight;
@@ -198,7 +128,7 @@ function findPivots(B: number, S: NodeData[]): { P: NodeData[], W: NodeData[] }
              // Add to animation list for visualization purposes ("scanning")
              // We don't mark isVisited true yet to allow proper re-visitation in BaseCase
              // But we push to array to show activity
-             visitedNodesInOrder.push(v);
+             recordVisit(v);
           }
 
           if (v.distance < B) {
@@ -229,40 +159,39 @@ function findPivots(B: number, S: NodeData[]): { P: NodeData[], W: NodeData[] }
 // Algorithm 2: Base Case (Mini Dijkstra)
 function baseCase(B: number, S: NodeData[]): { boundary: number, U: NodeData[] } {
   const U0 = new Set<NodeData>(S);
-  const heap = new MinHeap();
+  const heap = createPriorityQueue<NodeData>(queueTypeRef, (a, b) => a.distance - b.distance);
   
   for (const node of S) {
-    heap.push(node, node.distance);
+    if (!heap.contains(node)) heap.push(node);
   }
 
   // Upper bound for mini-dijkstra iterations
   while (!heap.isEmpty() && U0.size < k_param + 1) {
-    const min = heap.pop();
-    if (!min) break;
-    const { node: u, dist } = min;
+    const u = heap.pop();
+    if (!u) break;
 
-    if (dist >= B) break;
+    if (u.distance >= B) break;
 
     U0.add(u);
     
     if (!u.isVisited) {
         u.isVisited = true;
-        visitedNodesInOrder.push(u);
+        recordVisit(u);
     }
 
-    const neighbors = getNeighbors(u, gridRef);
+    const neighbors = graphRef.getNeighbors(u);
     for (const v of neighbors) {
-      const weight = 1;
+      const weight = graphRef.getCost(u, v);
       if (u.distance + weight <= v.distance && u.distance + weight < B) {
         v.distance = u.distance + weight;
         v.previousNode = u;
         
-        visitedNodesInOrder.push(v);
+        recordVisit(v);
 
         if (heap.contains(v)) {
-          heap.decreaseKey(v, v.distance);
+          heap.decreaseKey(v);
         } else {
-          heap.push(v, v.distance);
+          heap.push(v);
         }
       }
     }
@@ -314,16 +243,16 @@ function bmsspRecursive(l: number, B: number, S: NodeData[]): { boundary: number
       U.add(node);
       if (!node.isVisited) {
         node.isVisited = true;
-        visitedNodesInOrder.push(node);
+        recordVisit(node);
       }
     }
 
     const K: { node: NodeData, val: number }[] = [];
 
     for (const u of Ui) {
-      const neighbors = getNeighbors(u, gridRef);
+      const neighbors = graphRef.getNeighbors(u);
       for (const v of neighbors) {
-        const weight = 1;
+        const weight = graphRef.getCost(u, v);
         if (u.distance + weight <= v.distance) {
           v.distance = u.distance + weight;
           v.previousNode = u;
@@ -356,7 +285,7 @@ function bmsspRecursive(l: number, B: number, S: NodeData[]): { boundary: number
       U.add(x);
       if (!x.isVisited) {
         x.isVisited = true;
-        visitedNodesInOrder.push(x);
+        recordVisit(x);
       }
     }
   }
@@ -367,20 +296,32 @@ function bmsspRecursive(l: number, B: number, S: NodeData[]): { boundary: number
 // --- Main Export ---
 
 export const bmssp = (
-  grid: NodeData[][],
+  graph: GridGraph,
   startNode: NodeData,
-  finishNode: NodeData
-): { visitedNodesInOrder: NodeData[]; nodesInShortestPathOrder: NodeData[] } => {
+  finishNode: NodeData,
+  queueType: PriorityQueueType = 'binaryHeap'
+): AlgorithmResult => multiSourceBmssp(graph, [startNode], [finishNode], queueType);
+
+// BMSSP is multi-source by construction: the top-level call simply gets every start as its source set S.
+// It settles the whole graph rather than stopping early, then the path runs to the nearest finish.
+export const multiSourceBmssp = (
+  graph: GridGraph,
+  startNodes: NodeData[],
+  finishNodes: NodeData[],
+  queueType: PriorityQueueType = 'binaryHeap'
+): AlgorithmResult => {
   visitedNodesInOrder = [];
-  gridRef = grid;
+  recordedNodes = new Set<NodeData>();
+  graphRef = graph;
+  queueTypeRef = queueType;
 
-  const allNodes = getAllNodes(grid);
+  const allNodes = getAllNodes(graph.grid);
   for (const node of allNodes) {
     node.distance = Infinity;
     node.isVisited = false;
     node.previousNode = null;
   }
-  startNode.distance = 0;
+  for (const startNode of startNodes) startNode.distance = 0;
 
   const N = allNodes.length;
   
@@ -394,18 +335,11 @@ export const bmssp = (
   const l = Math.ceil(Math.log2(N) / t_param);
 
   // Execute BMSSP from top level
-  bmsspRecursive(l, Infinity, [startNode]);
+  bmsspRecursive(l, Infinity, startNodes);
 
   // Path Reconstruction
-  const nodesInShortestPathOrder: NodeData[] = [];
-  let currentNode: NodeData | null = finishNode;
-  
-  if (finishNode.distance !== Infinity) {
-    while (currentNode !== null) {
-      nodesInShortestPathOrder.unshift(currentNode);
-      currentNode = currentNode.previousNode;
-    }
-  }
+  const nearestFinish = finishNodes.reduce((nearest, node) => node.distance < nearest.distance ? node : nearest);
+  const nodesInShortestPathOrder = nearestFinish.distance !== Infinity ? getNodesInShortestPathOrder(nearestFinish) : [];
 
   return { visitedNodesInOrder, nodesInShortestPathOrder };
-};
\ No newline at end of file
+};
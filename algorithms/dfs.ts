@@ -0,0 +1,40 @@
+import { AlgorithmResult, GridGraph, NodeData } from '../types';
+import { getNodesInShortestPathOrder } from './gridGraph';
+
+/**
+ * Depth-first search: follows one direction as far as it can before backtracking.
+ * It finds a path if one exists but makes no attempt at a short one; it is here as a contrast.
+ */
+export const dfs = (
+  graph: GridGraph,
+  startNode: NodeData,
+  finishNode: NodeData
+): AlgorithmResult => {
+  const visitedNodesInOrder: NodeData[] = [];
+  // Each entry remembers who pushed it, so the path follows the branch that actually reached a node
+  const stack: { node: NodeData; parent: NodeData | null }[] = [{ node: startNode, parent: null }];
+  startNode.distance = 0;
+
+  while (stack.length > 0) {
+    const { node, parent } = stack.pop()!;
+    if (node.isVisited) continue;
+
+    node.isVisited = true;
+    node.previousNode = parent;
+    if (parent) node.distance = parent.distance + graph.getCost(parent, node);
+    visitedNodesInOrder.push(node);
+
+    if (node === finishNode) {
+      const nodesInShortestPathOrder = getNodesInShortestPathOrder(finishNode);
+      return { visitedNodesInOrder, nodesInShortestPathOrder };
+    }
+
+    // Pushed in reverse so the first neighbour (up, then down, left, right) is explored first
+    const neighbors = graph.getNeighbors(node);
+    for (let i = neighbors.length - 1; i >= 0; i--) {
+      if (!neighbors[i].isVisited) stack.push({ node: neighbors[i], parent: node });
+    }
+  }
+
+  return { visitedNodesInOrder, nodesInShortestPathOrder: [] };
+};
@@ -1,4 +1,6 @@
-import { NodeData } from '../types';
+import { AlgorithmResult, GridGraph, NodeData, PriorityQueueType } from '../types';
+import { getNodesInShortestPathOrder } from './gridGraph';
+import { createPriorityQueue, PriorityQueue } from './priorityQueue';
 
 /**
  * Performs Dijkstra's algorithm on a grid.
@@ -6,26 +8,36 @@ import { NodeData } from '../types';
  * and the nodes forming the shortest path.
  */
 export const dijkstra = (
-  grid: NodeData[][],
+  graph: GridGraph,
   startNode: NodeData,
-  finishNode: NodeData
-): { visitedNodesInOrder: NodeData[]; nodesInShortestPathOrder: NodeData[] } => {
+  finishNode: NodeData,
+  queueType: PriorityQueueType = 'binaryHeap'
+): AlgorithmResult => multiSourceDijkstra(graph, [startNode], [finishNode], queueType);
+
+/**
+ * Dijkstra seeded with every start node at distance 0, stopping at the first finish node it settles:
+ * the shortest path from any start to the nearest finish.
+ */
+export const multiSourceDijkstra = (
+  graph: GridGraph,
+  startNodes: NodeData[],
+  finishNodes: NodeData[],
+  queueType: PriorityQueueType = 'binaryHeap'
+): AlgorithmResult => {
   const visitedNodesInOrder: NodeData[] = [];
-  startNode.distance = 0;
+  const finishSet = new Set(finishNodes);
   
-  // Use an array as a priority queue (min-heap structure would be O(log N), array sort is O(N log N))
-  // For grid sizes used here, this is performant enough and much faster than sorting ALL nodes.
-  const openSet: NodeData[] = [startNode];
+  // Open set ordered by distance from the nearest start
+  const openSet = createPriorityQueue<NodeData>(queueType, (nodeA, nodeB) => nodeA.distance - nodeB.distance);
+  for (const startNode of startNodes) {
+    startNode.distance = 0;
+    openSet.push(startNode);
+  }
 
-  while (openSet.length > 0) {
-    // Sort nodes by distance to simulate Priority Queue
-    sortNodesByDistance(openSet);
-    
-    const closestNode = openSet.shift();
+  while (!openSet.isEmpty()) {
+    const closestNode = openSet.pop();
     if (!closestNode) break;
 
-    if (closestNode.isWall) continue;
-
     // If the closest node is at a distance of infinity,
     // we must be trapped and should therefore stop.
     if (closestNode.distance === Infinity) {
@@ -38,57 +50,33 @@ export const dijkstra = (
     closestNode.isVisited = true;
     visitedNodesInOrder.push(closestNode);
 
-    // If we reached the finish node, we are done!
-    if (closestNode === finishNode) {
-      const nodesInShortestPathOrder = getNodesInShortestPathOrder(finishNode);
+    // If we reached a finish node, it is the nearest one and we are done!
+    if (finishSet.has(closestNode)) {
+      const nodesInShortestPathOrder = getNodesInShortestPathOrder(closestNode);
       return { visitedNodesInOrder, nodesInShortestPathOrder };
     }
 
-    updateUnvisitedNeighbors(closestNode, grid, openSet);
+    updateUnvisitedNeighbors(closestNode, graph, openSet);
   }
 
   return { visitedNodesInOrder, nodesInShortestPathOrder: [] };
 };
 
-function sortNodesByDistance(unvisitedNodes: NodeData[]) {
-  unvisitedNodes.sort((nodeA, nodeB) => nodeA.distance - nodeB.distance);
-}
-
-function updateUnvisitedNeighbors(node: NodeData, grid: NodeData[][], openSet: NodeData[]) {
-  const unvisitedNeighbors = getUnvisitedNeighbors(node, grid);
+function updateUnvisitedNeighbors(node: NodeData, graph: GridGraph, openSet: PriorityQueue<NodeData>) {
+  const unvisitedNeighbors = graph.getNeighbors(node).filter((neighbor) => !neighbor.isVisited);
   for (const neighbor of unvisitedNeighbors) {
-    const newDistance = node.distance + 1;
+    const newDistance = node.distance + graph.getCost(node, neighbor);
     
     if (newDistance < neighbor.distance) {
       neighbor.distance = newDistance;
       neighbor.previousNode = node;
       
-      // Add to openSet if not already present
-      if (!openSet.includes(neighbor)) {
+      // Decrease its key if already queued, otherwise add it
+      if (openSet.contains(neighbor)) {
+        openSet.decreaseKey(neighbor);
+      } else {
         openSet.push(neighbor);
       }
     }
   }
 }
-
-function getUnvisitedNeighbors(node: NodeData, grid: NodeData[][]): NodeData[] {
-  const neighbors: NodeData[] = [];
-  const { col, row } = node;
-  
-  if (row > 0) neighbors.push(grid[row - 1][col]);
-  if (row < grid.length - 1) neighbors.push(grid[row + 1][col]);
-  if (col > 0) neighbors.push(grid[row][col - 1]);
-  if (col < grid[0].length - 1) neighbors.push(grid[row][col + 1]);
-  
-  return neighbors.filter((neighbor) => !neighbor.isVisited);
-}
-
-function getNodesInShortestPathOrder(finishNode: NodeData): NodeData[] {
-  const nodesInShortestPathOrder: NodeData[] = [];
-  let currentNode: NodeData | null = finishNode;
-  while (currentNode !== null) {
-    nodesInShortestPathOrder.unshift(currentNode);
-    currentNode = currentNode.previousNode;
-  }
-  return nodesInShortestPathOrder;
-}
\ No newline at end of file
@@ -1,24 +1,25 @@
-import { NodeData } from '../types';
+import { AlgorithmResult, GridGraph, NodeData, PriorityQueueType } from '../types';
+import { getNodesInShortestPathOrder } from './gridGraph';
+import { createPriorityQueue, PriorityQueue } from './priorityQueue';
 
 export const greedyBfs = (
-  grid: NodeData[][],
+  graph: GridGraph,
   startNode: NodeData,
-  finishNode: NodeData
-): { visitedNodesInOrder: NodeData[]; nodesInShortestPathOrder: NodeData[] } => {
+  finishNode: NodeData,
+  queueType: PriorityQueueType = 'binaryHeap'
+): AlgorithmResult => {
   const visitedNodesInOrder: NodeData[] = [];
   startNode.distance = 0;
-  startNode.heuristicDistance = getManhattanDistance(startNode, finishNode);
+  startNode.heuristicDistance = graph.getHeuristic(startNode, finishNode);
   
-  const openSet: NodeData[] = [startNode];
+  // Greedy BFS orders purely by heuristic distance to end
+  const openSet = createPriorityQueue<NodeData>(queueType, (nodeA, nodeB) => nodeA.heuristicDistance - nodeB.heuristicDistance);
+  openSet.push(startNode);
 
-  while (openSet.length > 0) {
-    // Greedy BFS sorts primarily by heuristic distance to end
-    sortNodesByHeuristic(openSet);
-    
-    const closestNode = openSet.shift();
+  while (!openSet.isEmpty()) {
+    const closestNode = openSet.pop();
     if (!closestNode) break;
 
-    if (closestNode.isWall) continue;
     if (closestNode.isVisited) continue;
 
     closestNode.isVisited = true;
@@ -29,55 +30,27 @@ export const greedyBfs = (
       return { visitedNodesInOrder, nodesInShortestPathOrder };
     }
 
-    updateUnvisitedNeighbors(closestNode, finishNode, grid, openSet);
+    updateUnvisitedNeighbors(closestNode, finishNode, graph, openSet);
   }
 
   return { visitedNodesInOrder, nodesInShortestPathOrder: [] };
 };
 
-function sortNodesByHeuristic(nodes: NodeData[]) {
-  nodes.sort((nodeA, nodeB) => nodeA.heuristicDistance - nodeB.heuristicDistance);
-}
-
 function updateUnvisitedNeighbors(
   node: NodeData,
   finishNode: NodeData,
-  grid: NodeData[][],
-  openSet: NodeData[]
+  graph: GridGraph,
+  openSet: PriorityQueue<NodeData>
 ) {
-  const unvisitedNeighbors = getUnvisitedNeighbors(node, grid);
+  const unvisitedNeighbors = graph.getNeighbors(node).filter((neighbor) => !neighbor.isVisited);
   for (const neighbor of unvisitedNeighbors) {
      // For Greedy BFS, we just want to explore. We track distance for path reconstruction logic if needed,
      // but the priority is heuristic.
      if (neighbor.distance === Infinity) { // if not visited/seen
-       neighbor.distance = node.distance + 1; // keep track of path length
-       neighbor.heuristicDistance = getManhattanDistance(neighbor, finishNode);
+       neighbor.distance = node.distance + graph.getCost(node, neighbor); // keep track of path cost
+       neighbor.heuristicDistance = graph.getHeuristic(neighbor, finishNode);
        neighbor.previousNode = node;
        openSet.push(neighbor);
      }
   }
 }
-
-function getUnvisitedNeighbors(node: NodeData, grid: NodeData[][]): NodeData[] {
-  const neighbors: NodeData[] = [];
-  const { col, row } = node;
-  if (row > 0) neighbors.push(grid[row - 1][col]);
-  if (row < grid.length - 1) neighbors.push(grid[row + 1][col]);
-  if (col > 0) neighbors.push(grid[row][col - 1]);
-  if (col < grid[0].length - 1) neighbors.push(grid[row][col + 1]);
-  return neighbors.filter((neighbor) => !neighbor.isVisited);
-}
-
-function getManhattanDistance(nodeA: NodeData, nodeB: NodeData): number {
-  return Math.abs(nodeA.row - nodeB.row) + Math.abs(nodeA.col - nodeB.col);
-}
-
-function getNodesInShortestPathOrder(finishNode: NodeData): NodeData[] {
-  const nodesInShortestPathOrder: NodeData[] = [];
-  let currentNode: NodeData | null = finishNode;
-  while (currentNode !== null) {
-    nodesInShortestPathOrder.unshift(currentNode);
-    currentNode = currentNode.previousNode;
-  }
-  return nodesInShortestPathOrder;
-}
@@ -0,0 +1,110 @@
+import { GridGraph, MovementMode, NodeData } from '../types';
+
+/**
+ * Shared graph view of the grid consumed by every algorithm: neighbour enumeration,
+ * edge costs, heuristics and path reconstruction.
+ * Diagonal steps cost √2 times the terrain weight of the cell being entered.
+ */
+
+const ORTHOGONAL_OFFSETS: [number, number][] = [[-1, 0], [1, 0], [0, -1], [0, 1]];
+const DIAGONAL_OFFSETS: [number, number][] = [[-1, -1], [-1, 1], [1, -1], [1, 1]];
+
+function isPassable(grid: NodeData[][], row: number, col: number): boolean {
+  return row >= 0 && row < grid.length && col >= 0 && col < grid[0].length && !grid[row][col].isWall;
+}
+
+function getNeighbors(node: NodeData, grid: NodeData[][], movement: MovementMode): NodeData[] {
+  const neighbors: NodeData[] = [];
+  const { col, row } = node;
+
+  for (const [dRow, dCol] of ORTHOGONAL_OFFSETS) {
+    if (isPassable(grid, row + dRow, col + dCol)) neighbors.push(grid[row + dRow][col + dCol]);
+  }
+
+  if (movement === 'fourWay') return neighbors;
+
+  for (const [dRow, dCol] of DIAGONAL_OFFSETS) {
+    if (!isPassable(grid, row + dRow, col + dCol)) continue;
+    // Without corner cutting, a diagonal step needs both orthogonal cells it slips between to be open
+    if (movement === 'eightWayNoCornerCutting' && (!isPassable(grid, row + dRow, col) || !isPassable(grid, row, col + dCol))) {
+      continue;
+    }
+    neighbors.push(grid[row + dRow][col + dCol]);
+  }
+
+  return neighbors;
+}
+
+export function getMoveCost(from: NodeData, to: NodeData): number {
+  const isDiagonal = from.row !== to.row && from.col !== to.col;
+  return isDiagonal ? to.weight * Math.SQRT2 : to.weight;
+}
+
+export function getManhattanDistance(nodeA: NodeData, nodeB: NodeData): number {
+  return Math.abs(nodeA.row - nodeB.row) + Math.abs(nodeA.col - nodeB.col);
+}
+
+export function getOctileDistance(nodeA: NodeData, nodeB: NodeData): number {
+  const dRow = Math.abs(nodeA.row - nodeB.row);
+  const dCol = Math.abs(nodeA.col - nodeB.col);
+  return Math.max(dRow, dCol) + (Math.SQRT2 - 1) * Math.min(dRow, dCol);
+}
+
+export const createGridGraph = (grid: NodeData[][], movement: MovementMode = 'fourWay'): GridGraph => ({
+  grid,
+  movement,
+  getNeighbors: (node) => getNeighbors(node, grid, movement),
+  getCost: getMoveCost,
+  // Manhattan for 4-way, octile once diagonals are allowed. Both stay admissible while no cell costs less than 1;
+  // boost cells break that, which is why boards with them are only valid input for Bellman–Ford and SPFA.
+  getHeuristic: movement === 'fourWay' ? getManhattanDistance : getOctileDistance,
+});
+
+// Walks `previousNode` links back from the finish node
+export function getNodesInShortestPathOrder(finishNode: NodeData): NodeData[] {
+  const nodesInShortestPathOrder: NodeData[] = [];
+  let currentNode: NodeData | null = finishNode;
+  while (currentNode !== null) {
+    nodesInShortestPathOrder.unshift(currentNode);
+    currentNode = currentNode.previousNode;
+  }
+  return nodesInShortestPathOrder;
+}
+
+export function getPathCost(graph: GridGraph, path: NodeData[]): number {
+  // The start cell is never entered, so it does not contribute to the cost
+  let cost = 0;
+  for (let i = 1; i < path.length; i++) {
+    cost += graph.getCost(path[i - 1], path[i]);
+  }
+  return cost;
+}
+
+// Cost of walking a cycle once, including the step from its last cell back to the first
+export function getCycleCost(graph: GridGraph, cycle: NodeData[]): number {
+  return getPathCost(graph, cycle) + (cycle.length > 1 ? graph.getCost(cycle[cycle.length - 1], cycle[0]) : 0);
+}
+
+// Boost cells have a negative traversal cost, which breaks every algorithm that assumes costs only grow
+export function hasNegativeCosts(grid: NodeData[][]): boolean {
+  return grid.some(row => row.some(node => !node.isWall && node.weight < 0));
+}
+
+// A loop in the `previousNode` links, in walking order. During Bellman–Ford style relaxation such a loop
+// can only appear once the costs around it sum to less than zero.
+export function findPredecessorCycle(nodes: NodeData[]): NodeData[] | null {
+  const walkOf = new Map<NodeData, number>();
+  for (let walk = 0; walk < nodes.length; walk++) {
+    let node: NodeData | null = nodes[walk];
+    while (node && !walkOf.has(node)) {
+      walkOf.set(node, walk);
+      node = node.previousNode;
+    }
+    // Reaching a node marked on this same walk means the links lead back into themselves
+    if (!node || walkOf.get(node) !== walk) continue;
+    const cycle: NodeData[] = [node];
+    for (let current = node.previousNode!; current !== node; current = current.previousNode!) cycle.push(current);
+    return cycle.reverse();
+  }
+  return null;
+}
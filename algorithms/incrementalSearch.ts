@@ -0,0 +1,186 @@
+import { AlgorithmResult, GridGraph, NodeData, PriorityQueueType } from '../types';
+import { createPriorityQueue } from './priorityQueue';
+
+/**
+ * Incremental searches that keep their state between runs, so after cells change only the nodes whose
+ * distances the change reaches are searched again.
+ *
+ * LPA* (Koenig & Likhachev, 2002) grows distances out from the start in A* order, keeping for every node
+ * its distance g and a one-step lookahead rhs (the best g over its neighbours plus the step). An edit makes
+ * the nodes around it inconsistent (g ≠ rhs), and a repair expands only those until the finish is
+ * consistent again. D* Lite is the same search run backwards from the finish, the form used by robots that
+ * replan as they walk, since its distances are measured to the finish rather than from the start.
+ */
+
+export interface IncrementalPlanner {
+  // Searches until the path is up to date; returns the nodes it expanded, each once, in first-expansion order
+  computeShortestPath: () => NodeData[];
+  // Re-examines cells whose wall or terrain already changed on the grid
+  updateCells: (cells: NodeData[]) => void;
+  // Start to finish, empty when the finish is unreachable
+  getPath: () => NodeData[];
+}
+
+// Keys are sums of √2 steps on diagonal boards, so comparisons allow for float noise
+const EPSILON = 1e-9;
+
+// Ordered by f, then underconsistent nodes first (the stop test relies on them going before the focus),
+// then like A*: the larger distance, i.e. the smaller heuristic, so the first search expands what A* does
+interface QueueEntry {
+  node: NodeData;
+  primary: number;
+  isUnderconsistent: boolean;
+  secondary: number;
+}
+
+const isBefore = (a: QueueEntry, b: QueueEntry) => {
+  if (Math.abs(a.primary - b.primary) > EPSILON) return a.primary < b.primary;
+  if (a.isUnderconsistent !== b.isUnderconsistent) return a.isUnderconsistent;
+  return a.secondary < b.secondary - EPSILON;
+};
+
+// The queue must agree with the stop test, or a node tied with the focus up to float noise is left unexpanded
+const compareEntries = (a: QueueEntry, b: QueueEntry) => (isBefore(a, b) ? -1 : isBefore(b, a) ? 1 : 0);
+
+// Searches out from `root` until `focus` is consistent; D* Lite's root is the finish and its focus the start
+const createPlanner = (
+  graph: GridGraph,
+  root: NodeData,
+  focus: NodeData,
+  isBackward: boolean,
+  queueType: PriorityQueueType
+): IncrementalPlanner => {
+  const { grid } = graph;
+  const rows = grid.length;
+  const cols = grid[0].length;
+  const g = new Float64Array(rows * cols).fill(Infinity);
+  const rhs = new Float64Array(rows * cols).fill(Infinity);
+  const indexOf = (node: NodeData) => node.row * cols + node.col;
+  const isConsistent = (index: number) => g[index] === rhs[index] || Math.abs(g[index] - rhs[index]) < EPSILON;
+
+  // Tree edges point away from the root, which is against the walking direction when searching backwards
+  const getStepCost = (parent: NodeData, child: NodeData) =>
+    isBackward ? graph.getCost(child, parent) : graph.getCost(parent, child);
+
+  const calculateKey = (node: NodeData): QueueEntry => {
+    const index = indexOf(node);
+    const best = Math.min(g[index], rhs[index]);
+    const isUnderconsistent = g[index] < rhs[index] && !isConsistent(index);
+    return { node, primary: best + graph.getHeuristic(node, focus), isUnderconsistent, secondary: isUnderconsistent ? best : -best };
+  };
+
+  // Entries are never reordered or removed: a node's live entry is the one in `queued`, older ones are skipped
+  const open = createPriorityQueue<QueueEntry>(queueType, compareEntries);
+  const queued = new Map<NodeData, QueueEntry>();
+
+  const enqueue = (entry: QueueEntry) => {
+    queued.set(entry.node, entry);
+    open.push(entry);
+  };
+
+  const popLive = (): QueueEntry | null => {
+    while (!open.isEmpty()) {
+      const entry = open.pop()!;
+      if (queued.get(entry.node) !== entry) continue;
+      queued.delete(entry.node);
+      return entry;
+    }
+    return null;
+  };
+
+  const updateNode = (node: NodeData) => {
+    const index = indexOf(node);
+    if (node !== root) {
+      let best = Infinity;
+      if (!node.isWall) {
+        for (const neighbor of graph.getNeighbors(node)) best = Math.min(best, g[indexOf(neighbor)] + getStepCost(neighbor, node));
+      }
+      rhs[index] = best;
+    }
+    queued.delete(node);
+    if (!isConsistent(index)) enqueue(calculateKey(node));
+  };
+
+  rhs[indexOf(root)] = 0;
+  enqueue(calculateKey(root));
+
+  const computeShortestPath = (): NodeData[] => {
+    const expandedNodes: NodeData[] = [];
+    const expanded = new Set<NodeData>();
+    for (let entry = popLive(); entry; entry = popLive()) {
+      if (!isBefore(entry, calculateKey(focus)) && isConsistent(indexOf(focus))) {
+        enqueue(entry);
+        break;
+      }
+      const { node } = entry;
+      if (!expanded.has(node)) {
+        expanded.add(node);
+        expandedNodes.push(node);
+      }
+      const index = indexOf(node);
+      if (g[index] > rhs[index]) {
+        g[index] = rhs[index];
+      } else {
+        // Underconsistent: its distance went up, so it and everything that relied on it is re-examined
+        g[index] = Infinity;
+        updateNode(node);
+      }
+      for (const neighbor of graph.getNeighbors(node)) updateNode(neighbor);
+    }
+    return expandedNodes;
+  };
+
+  const updateCells = (cells: NodeData[]) => {
+    // A cell's own edges change, and without corner cutting so do the diagonals that slip past it
+    const affected = new Set<NodeData>();
+    for (const { row, col } of cells) {
+      for (let dRow = -1; dRow <= 1; dRow++) {
+        for (let dCol = -1; dCol <= 1; dCol++) {
+          if (row + dRow >= 0 && row + dRow < rows && col + dCol >= 0 && col + dCol < cols) affected.add(grid[row + dRow][col + dCol]);
+        }
+      }
+    }
+    affected.forEach(updateNode);
+  };
+
+  const getPath = (): NodeData[] => {
+    if (g[indexOf(focus)] === Infinity) return [];
+    // Walks from the focus back to the root, always to the neighbour its distance came from
+    const walk = [focus];
+    for (let node = focus; node !== root; ) {
+      let next: NodeData | null = null;
+      let nextCost = Infinity;
+      for (const neighbor of graph.getNeighbors(node)) {
+        const cost = g[indexOf(neighbor)] + getStepCost(neighbor, node);
+        if (cost < nextCost) {
+          next = neighbor;
+          nextCost = cost;
+        }
+      }
+      if (!next || walk.length > rows * cols) return [];
+      walk.push(next);
+      node = next;
+    }
+    return isBackward ? walk : walk.reverse();
+  };
+
+  return { computeShortestPath, updateCells, getPath };
+};
+
+export const createLpaStar = (graph: GridGraph, startNode: NodeData, finishNode: NodeData, queueType: PriorityQueueType = 'binaryHeap') =>
+  createPlanner(graph, startNode, finishNode, false, queueType);
+
+export const createDStarLite = (graph: GridGraph, startNode: NodeData, finishNode: NodeData, queueType: PriorityQueueType = 'binaryHeap') =>
+  createPlanner(graph, finishNode, startNode, true, queueType);
+
+// A first search from nothing, which expands the same nodes as A* (D* Lite: A* from the finish)
+const runOnce = (planner: IncrementalPlanner): AlgorithmResult => ({
+  visitedNodesInOrder: planner.computeShortestPath(),
+  nodesInShortestPathOrder: planner.getPath(),
+});
+
+export const lpaStar = (graph: GridGraph, startNode: NodeData, finishNode: NodeData, queueType?: PriorityQueueType): AlgorithmResult =>
+  runOnce(createLpaStar(graph, startNode, finishNode, queueType));
+
+export const dStarLite = (graph: GridGraph, startNode: NodeData, finishNode: NodeData, queueType?: PriorityQueueType): AlgorithmResult =>
+  runOnce(createDStarLite(graph, startNode, finishNode, queueType));
@@ -0,0 +1,107 @@
+import { AlgorithmResult, GridGraph, NodeData, SearchIteration } from '../types';
+
+/**
+ * Iterative deepening: a depth-first search repeated under a growing bound, with only the current path on
+ * the stack. Each iteration re-expands everything the previous one did, which is the price of the shallow
+ * stack. Within an iteration a cell is only entered again when reached more cheaply than before (a
+ * transposition check, one number per cell), since the cheaper visit already covered everything within
+ * the bound from there. Runs that still reach MAX_EXPANSIONS stop and report what they searched.
+ */
+
+const MAX_EXPANSIONS = 200000;
+
+// Bounds are sums of √2 steps on diagonal boards, so comparisons allow for float noise
+const BOUND_EPSILON = 1e-9;
+
+// What an iteration's bound limits, for a node reached at `cost` after `depth` steps
+type BoundedValue = (node: NodeData, cost: number, depth: number) => number;
+
+interface StackEntry {
+  node: NodeData;
+  cost: number;
+  neighbors: NodeData[];
+  nextNeighbor: number;
+}
+
+const deepen = (graph: GridGraph, startNode: NodeData, finishNode: NodeData, measure: BoundedValue): AlgorithmResult => {
+  const visitedNodesInOrder: NodeData[] = [];
+  const iterations: SearchIteration[] = [];
+  const cols = graph.grid[0].length;
+  // Smallest bounded value each cell was entered with in the current iteration
+  const bestValues = new Float64Array(graph.grid.length * cols);
+  let expansionCount = 0;
+  let peakStackDepth = 0;
+  const toResult = (nodesInShortestPathOrder: NodeData[], gaveUpAfter?: number): AlgorithmResult =>
+    ({ visitedNodesInOrder, nodesInShortestPathOrder, iterations, peakStackDepth, gaveUpAfter });
+
+  let bound = measure(startNode, 0, 0);
+  while (bound < Infinity) {
+    const expandedNodes: NodeData[] = [];
+    iterations.push({ bound, expandedNodes });
+    // Smallest value that fell outside this bound: the next iteration's bound
+    let nextBound = Infinity;
+    const stack: StackEntry[] = [];
+    const onPath = new Set<NodeData>();
+    bestValues.fill(Infinity);
+
+    // Pushes the node if it is within the bound and not reached as cheaply before; returns true when that reaches the finish
+    const enter = (node: NodeData, cost: number): boolean => {
+      const value = measure(node, cost, stack.length);
+      if (value > bound + BOUND_EPSILON) {
+        nextBound = Math.min(nextBound, value);
+        return false;
+      }
+      const index = node.row * cols + node.col;
+      if (value >= bestValues[index] - BOUND_EPSILON) return false;
+      bestValues[index] = value;
+      expansionCount++;
+      expandedNodes.push(node);
+      if (!node.isVisited) {
+        node.isVisited = true;
+        visitedNodesInOrder.push(node);
+      }
+      if (node === finishNode) {
+        stack.push({ node, cost, neighbors: [], nextNeighbor: 0 });
+        peakStackDepth = Math.max(peakStackDepth, stack.length);
+        return true;
+      }
+      stack.push({ node, cost, neighbors: graph.getNeighbors(node), nextNeighbor: 0 });
+      onPath.add(node);
+      peakStackDepth = Math.max(peakStackDepth, stack.length);
+      return false;
+    };
+
+    if (enter(startNode, 0)) return toResult([startNode]);
+    while (stack.length > 0) {
+      if (expansionCount >= MAX_EXPANSIONS) return toResult([], expansionCount);
+      const top = stack[stack.length - 1];
+      if (top.nextNeighbor === top.neighbors.length) {
+        stack.pop();
+        onPath.delete(top.node);
+        continue;
+      }
+      const neighbor = top.neighbors[top.nextNeighbor++];
+      if (onPath.has(neighbor)) continue;
+      if (enter(neighbor, top.cost + graph.getCost(top.node, neighbor))) return toResult(stack.map(entry => entry.node));
+    }
+
+    // Nothing was cut off, so the whole reachable board fit within the bound and the finish is unreachable
+    bound = nextBound;
+  }
+
+  return toResult([]);
+};
+
+/**
+ * IDA* (Korf, 1985): depth-first A* under an f = g + h threshold, raised each iteration to the smallest
+ * f that exceeded it. Optimal with an admissible heuristic, like A*, with a stack only as deep as the path.
+ */
+export const idaStar = (graph: GridGraph, startNode: NodeData, finishNode: NodeData): AlgorithmResult =>
+  deepen(graph, startNode, finishNode, (node, cost) => cost + graph.getHeuristic(node, finishNode));
+
+/**
+ * Iterative-deepening DFS: depth-limited DFS with the limit raised one step per iteration. Finds the path
+ * with the fewest steps (like BFS), ignoring terrain costs, with a stack only as deep as the path.
+ */
+export const iddfs = (graph: GridGraph, startNode: NodeData, finishNode: NodeData): AlgorithmResult =>
+  deepen(graph, startNode, finishNode, (_node, _cost, depth) => depth);
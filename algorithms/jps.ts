@@ -0,0 +1,217 @@
+import { AlgorithmResult, GridGraph, NodeData, PriorityQueueType, SearchHighlight } from '../types';
+import { getNodesInShortestPathOrder } from './gridGraph';
+import { createPriorityQueue } from './priorityQueue';
+
+/**
+ * Jump Point Search (Harabor & Grastien, 2011): A* that only expands "jump points", skipping the runs of
+ * cells in between whose alternatives are symmetric. Neighbours that an optimal path never needs are
+ * pruned at every expansion. The jump and pruning rules follow the movement mode (4-way, 8-way with
+ * corner cutting, 8-way without).
+ *
+ * Jumps assume every open cell costs the same. On terrain the path can be suboptimal, which the
+ * ground-truth check reports.
+ */
+
+type Direction = [number, number];
+
+const sign = (value: number) => (value > 0 ? 1 : value < 0 ? -1 : 0);
+
+export const jps = (
+  graph: GridGraph,
+  startNode: NodeData,
+  finishNode: NodeData,
+  queueType: PriorityQueueType = 'binaryHeap'
+): AlgorithmResult => {
+  const { grid, movement } = graph;
+  const rows = grid.length;
+  const cols = grid[0].length;
+  const visitedNodesInOrder: NodeData[] = [];
+  const scannedNodes = new Set<NodeData>();
+  const highlights: SearchHighlight[] = [];
+
+  const isOpen = (row: number, col: number) => row >= 0 && row < rows && col >= 0 && col < cols && !grid[row][col].isWall;
+
+  // Every cell a jump passes over counts as visited, once, like the cells other algorithms expand
+  const scan = (node: NodeData) => {
+    if (scannedNodes.has(node)) return;
+    scannedNodes.add(node);
+    visitedNodesInOrder.push(node);
+  };
+
+  const highlight = (node: NodeData, kind: SearchHighlight['kind']) =>
+    highlights.push({ node, kind, afterVisit: visitedNodesInOrder.length });
+
+  // A neighbour that only this cell reaches optimally, so a jump has to stop here
+  const hasForcedNeighbor = (row: number, col: number, dRow: number, dCol: number): boolean => {
+    if (dRow !== 0 && dCol !== 0) {
+      // Without corner cutting a diagonal move never forces anything; the straight sub-jumps find it instead
+      if (movement !== 'eightWay') return false;
+      return (isOpen(row + dRow, col - dCol) && !isOpen(row, col - dCol)) ||
+        (isOpen(row - dRow, col + dCol) && !isOpen(row - dRow, col));
+    }
+    if (movement === 'eightWay') {
+      return dCol !== 0
+        ? (isOpen(row + 1, col + dCol) && !isOpen(row + 1, col)) || (isOpen(row - 1, col + dCol) && !isOpen(row - 1, col))
+        : (isOpen(row + dRow, col + 1) && !isOpen(row, col + 1)) || (isOpen(row + dRow, col - 1) && !isOpen(row, col - 1));
+    }
+    // 4-way and no corner cutting: a side cell opens up just past a wall behind it
+    return dCol !== 0
+      ? (isOpen(row - 1, col) && !isOpen(row - 1, col - dCol)) || (isOpen(row + 1, col) && !isOpen(row + 1, col - dCol))
+      : (isOpen(row, col - 1) && !isOpen(row - dRow, col - 1)) || (isOpen(row, col + 1) && !isOpen(row - dRow, col + 1));
+  };
+
+  // Walks from (row, col) in one direction until it hits a jump point (returned) or a dead end (null)
+  const jump = (row: number, col: number, dRow: number, dCol: number): NodeData | null => {
+    while (isOpen(row, col)) {
+      const node = grid[row][col];
+      scan(node);
+      if (node === finishNode || hasForcedNeighbor(row, col, dRow, dCol)) return node;
+
+      // Diagonal runs stop wherever a straight run from them would; in 4-way, vertical runs check horizontally
+      if (dRow !== 0 && dCol !== 0) {
+        if (jump(row, col + dCol, 0, dCol) || jump(row + dRow, col, dRow, 0)) return node;
+        if (movement === 'eightWayNoCornerCutting' && (!isOpen(row, col + dCol) || !isOpen(row + dRow, col))) return null;
+      } else if (movement === 'fourWay' && dRow !== 0) {
+        if (jump(row, col + 1, 0, 1) || jump(row, col - 1, 0, -1)) return node;
+      }
+      row += dRow;
+      col += dCol;
+    }
+    return null;
+  };
+
+  // Directions worth searching from a node, given the direction it was reached from
+  const getSuccessorDirections = (node: NodeData): Direction[] => {
+    const { row, col } = node;
+    const parent = node.previousNode;
+    if (!parent) return graph.getNeighbors(node).map(neighbor => [neighbor.row - row, neighbor.col - col]);
+
+    const dRow = sign(row - parent.row);
+    const dCol = sign(col - parent.col);
+    const directions: Direction[] = [];
+    const addIf = (condition: boolean, direction: Direction) => { if (condition) directions.push(direction); };
+
+    if (movement === 'fourWay') {
+      if (dCol !== 0) {
+        addIf(isOpen(row, col + dCol), [0, dCol]);
+        addIf(isOpen(row - 1, col), [-1, 0]);
+        addIf(isOpen(row + 1, col), [1, 0]);
+      } else {
+        addIf(isOpen(row + dRow, col), [dRow, 0]);
+        addIf(isOpen(row, col - 1), [0, -1]);
+        addIf(isOpen(row, col + 1), [0, 1]);
+      }
+    } else if (movement === 'eightWayNoCornerCutting') {
+      if (dRow !== 0 && dCol !== 0) {
+        addIf(isOpen(row + dRow, col), [dRow, 0]);
+        addIf(isOpen(row, col + dCol), [0, dCol]);
+        addIf(isOpen(row + dRow, col) && isOpen(row, col + dCol) && isOpen(row + dRow, col + dCol), [dRow, dCol]);
+      } else if (dCol !== 0) {
+        const isNextOpen = isOpen(row, col + dCol);
+        addIf(isNextOpen, [0, dCol]);
+        for (const side of [-1, 1]) {
+          addIf(isNextOpen && isOpen(row + side, col) && isOpen(row + side, col + dCol), [side, dCol]);
+          addIf(isOpen(row + side, col), [side, 0]);
+        }
+      } else {
+        const isNextOpen = isOpen(row + dRow, col);
+        addIf(isNextOpen, [dRow, 0]);
+        for (const side of [-1, 1]) {
+          addIf(isNextOpen && isOpen(row, col + side) && isOpen(row + dRow, col + side), [dRow, side]);
+          addIf(isOpen(row, col + side), [0, side]);
+        }
+      }
+    } else {
+      if (dRow !== 0 && dCol !== 0) {
+        addIf(isOpen(row + dRow, col), [dRow, 0]);
+        addIf(isOpen(row, col + dCol), [0, dCol]);
+        addIf(isOpen(row + dRow, col + dCol), [dRow, dCol]);
+        addIf(!isOpen(row, col - dCol) && isOpen(row + dRow, col - dCol), [dRow, -dCol]);
+        addIf(!isOpen(row - dRow, col) && isOpen(row - dRow, col + dCol), [-dRow, dCol]);
+      } else if (dCol !== 0) {
+        addIf(isOpen(row, col + dCol), [0, dCol]);
+        addIf(!isOpen(row + 1, col) && isOpen(row + 1, col + dCol), [1, dCol]);
+        addIf(!isOpen(row - 1, col) && isOpen(row - 1, col + dCol), [-1, dCol]);
+      } else {
+        addIf(isOpen(row + dRow, col), [dRow, 0]);
+        addIf(!isOpen(row, col + 1) && isOpen(row + dRow, col + 1), [dRow, 1]);
+        addIf(!isOpen(row, col - 1) && isOpen(row + dRow, col - 1), [dRow, -1]);
+      }
+    }
+    return directions;
+  };
+
+  // Cells from one jump point to the next, which always lie on a straight or diagonal line
+  const getSegment = (from: NodeData, to: NodeData): NodeData[] => {
+    const dRow = sign(to.row - from.row);
+    const dCol = sign(to.col - from.col);
+    const cells: NodeData[] = [];
+    for (let row = from.row + dRow, col = from.col + dCol; ; row += dRow, col += dCol) {
+      cells.push(grid[row][col]);
+      if (row === to.row && col === to.col) return cells;
+    }
+  };
+
+  const getSegmentCost = (from: NodeData, to: NodeData) => {
+    let cost = 0;
+    let previous = from;
+    for (const cell of getSegment(from, to)) {
+      cost += graph.getCost(previous, cell);
+      previous = cell;
+    }
+    return cost;
+  };
+
+  startNode.distance = 0;
+  startNode.heuristicDistance = graph.getHeuristic(startNode, finishNode);
+  startNode.totalDistance = startNode.heuristicDistance;
+
+  // Same f-score ordering (ties broken on h) as A*
+  const openSet = createPriorityQueue<NodeData>(queueType, (nodeA, nodeB) =>
+    nodeA.totalDistance === nodeB.totalDistance
+      ? nodeA.heuristicDistance - nodeB.heuristicDistance
+      : nodeA.totalDistance - nodeB.totalDistance
+  );
+  openSet.push(startNode);
+
+  while (!openSet.isEmpty()) {
+    const node = openSet.pop();
+    if (!node) break;
+    if (node.isVisited) continue;
+    node.isVisited = true;
+    scan(node);
+
+    if (node === finishNode) {
+      const jumpPoints = getNodesInShortestPathOrder(finishNode);
+      const nodesInShortestPathOrder = [jumpPoints[0], ...jumpPoints.slice(1).flatMap((point, i) => getSegment(jumpPoints[i], point))];
+      return { visitedNodesInOrder, nodesInShortestPathOrder, highlights };
+    }
+
+    const directions = getSuccessorDirections(node);
+    for (const neighbor of graph.getNeighbors(node)) {
+      const isKept = directions.some(([dRow, dCol]) => neighbor.row === node.row + dRow && neighbor.col === node.col + dCol);
+      if (!isKept) highlight(neighbor, 'prunedNeighbor');
+    }
+
+    for (const [dRow, dCol] of directions) {
+      const jumpPoint = jump(node.row + dRow, node.col + dCol, dRow, dCol);
+      if (!jumpPoint || jumpPoint.isVisited) continue;
+
+      const newDistance = node.distance + getSegmentCost(node, jumpPoint);
+      if (newDistance < jumpPoint.distance) {
+        jumpPoint.distance = newDistance;
+        jumpPoint.heuristicDistance = graph.getHeuristic(jumpPoint, finishNode);
+        jumpPoint.totalDistance = newDistance + jumpPoint.heuristicDistance;
+        jumpPoint.previousNode = node;
+        highlight(jumpPoint, 'jumpPoint');
+        if (openSet.contains(jumpPoint)) {
+          openSet.decreaseKey(jumpPoint);
+        } else {
+          openSet.push(jumpPoint);
+        }
+      }
+    }
+  }
+
+  return { visitedNodesInOrder, nodesInShortestPathOrder: [], highlights };
+};
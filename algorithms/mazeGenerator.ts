@@ -1,13 +1,376 @@
-import { NodeData } from '../types';
+import { GridPosition, MazeStep, MazeType, NodeData } from '../types';
+import { DEFAULT_NODE_WEIGHT } from '../constants';
 
-export const generateRandomMaze = (
+/**
+ * Maze generators.
+ * Passage-carving generators treat cells at odd (row, col) as rooms and the cells between them as walls.
+ * Every generator edits walls only through the MazeBuilder, which records each change as a MazeStep so the
+ * construction can be animated. The result is patched afterwards so the start and finish nodes are always connected.
+ */
+
+interface MazeBuilder {
+  rows: number;
+  cols: number;
+  isWall: (row: number, col: number) => boolean;
+  setWall: (row: number, col: number, isWall: boolean, instant?: boolean) => void;
+}
+
+type Orientation = 'horizontal' | 'vertical';
+
+// Room coordinates for passage-carving generators
+interface Cell {
+  row: number;
+  col: number;
+}
+
+const randomInt = (max: number) => Math.floor(Math.random() * max);
+const randomItem = <T,>(items: T[]): T => items[randomInt(items.length)];
+
+function shuffle<T>(items: T[]): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = randomInt(i + 1);
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
+
+function fillWalls(builder: MazeBuilder) {
+  for (let row = 0; row < builder.rows; row++) {
+    for (let col = 0; col < builder.cols; col++) {
+      builder.setWall(row, col, true, true);
+    }
+  }
+}
+
+function getCellCounts(builder: MazeBuilder) {
+  return {
+    cellRows: Math.floor((builder.rows - 1) / 2),
+    cellCols: Math.floor((builder.cols - 1) / 2),
+  };
+}
+
+// Opens a room, or the wall between two adjacent rooms, in grid coordinates
+function carveCell(builder: MazeBuilder, cell: Cell) {
+  builder.setWall(cell.row * 2 + 1, cell.col * 2 + 1, false);
+}
+
+function carvePassage(builder: MazeBuilder, from: Cell, to: Cell) {
+  builder.setWall(from.row + to.row + 1, from.col + to.col + 1, false);
+  carveCell(builder, to);
+}
+
+function getCellNeighbors(cell: Cell, cellRows: number, cellCols: number): Cell[] {
+  const neighbors: Cell[] = [];
+  if (cell.row > 0) neighbors.push({ row: cell.row - 1, col: cell.col });
+  if (cell.row < cellRows - 1) neighbors.push({ row: cell.row + 1, col: cell.col });
+  if (cell.col > 0) neighbors.push({ row: cell.row, col: cell.col - 1 });
+  if (cell.col < cellCols - 1) neighbors.push({ row: cell.row, col: cell.col + 1 });
+  return neighbors;
+}
+
+// --- Generators ---
+
+function randomWalls(builder: MazeBuilder) {
+  // Density of 0.3 (30%) usually provides a good balance of obstacles without blocking too many paths completely
+  const WALL_DENSITY = 0.3;
+
+  for (let row = 0; row < builder.rows; row++) {
+    for (let col = 0; col < builder.cols; col++) {
+      if (Math.random() < WALL_DENSITY) builder.setWall(row, col, true);
+    }
+  }
+}
+
+function recursiveDivision(builder: MazeBuilder, bias: Orientation | null) {
+  const { rows, cols } = builder;
+
+  // Outer border
+  for (let col = 0; col < cols; col++) {
+    builder.setWall(0, col, true);
+    builder.setWall(rows - 1, col, true);
+  }
+  for (let row = 1; row < rows - 1; row++) {
+    builder.setWall(row, 0, true);
+    builder.setWall(row, cols - 1, true);
+  }
+
+  const chooseOrientation = (width: number, height: number): Orientation => {
+    if (bias === 'horizontal') return Math.random() < 0.8 ? 'horizontal' : 'vertical';
+    if (bias === 'vertical') return Math.random() < 0.8 ? 'vertical' : 'horizontal';
+    if (width < height) return 'horizontal';
+    if (height < width) return 'vertical';
+    return Math.random() < 0.5 ? 'horizontal' : 'vertical';
+  };
+
+  // Walls go on even indices and gaps on odd ones, so later walls never block an earlier gap
+  const evenBetween = (low: number, high: number) => {
+    const values: number[] = [];
+    for (let i = low + 1; i < high; i++) if (i % 2 === 0) values.push(i);
+    return values;
+  };
+  const oddWithin = (low: number, high: number) => {
+    const values: number[] = [];
+    for (let i = low; i <= high; i++) if (i % 2 === 1) values.push(i);
+    return values;
+  };
+
+  const divide = (top: number, bottom: number, left: number, right: number) => {
+    const wallRows = evenBetween(top, bottom);
+    const wallCols = evenBetween(left, right);
+    if (wallRows.length === 0 && wallCols.length === 0) return;
+
+    let orientation = chooseOrientation(right - left + 1, bottom - top + 1);
+    if (orientation === 'horizontal' && wallRows.length === 0) orientation = 'vertical';
+    if (orientation === 'vertical' && wallCols.length === 0) orientation = 'horizontal';
+
+    if (orientation === 'horizontal') {
+      const wallRow = randomItem(wallRows);
+      const gapCol = randomItem(oddWithin(left, right));
+      for (let col = left; col <= right; col++) {
+        if (col !== gapCol) builder.setWall(wallRow, col, true);
+      }
+      divide(top, wallRow - 1, left, right);
+      divide(wallRow + 1, bottom, left, right);
+    } else {
+      const wallCol = randomItem(wallCols);
+      const gapRow = randomItem(oddWithin(top, bottom));
+      for (let row = top; row <= bottom; row++) {
+        if (row !== gapRow) builder.setWall(row, wallCol, true);
+      }
+      divide(top, bottom, left, wallCol - 1);
+      divide(top, bottom, wallCol + 1, right);
+    }
+  };
+
+  divide(1, rows - 2, 1, cols - 2);
+}
+
+function dfsBacktracker(builder: MazeBuilder) {
+  const { cellRows, cellCols } = getCellCounts(builder);
+  fillWalls(builder);
+
+  const visited = new Set<string>();
+  const start = { row: randomInt(cellRows), col: randomInt(cellCols) };
+  const stack: Cell[] = [start];
+  visited.add(`${start.row}-${start.col}`);
+  carveCell(builder, start);
+
+  while (stack.length > 0) {
+    const current = stack[stack.length - 1];
+    const unvisited = getCellNeighbors(current, cellRows, cellCols).filter(n => !visited.has(`${n.row}-${n.col}`));
+    if (unvisited.length === 0) {
+      stack.pop();
+      continue;
+    }
+    const next = randomItem(unvisited);
+    visited.add(`${next.row}-${next.col}`);
+    carvePassage(builder, current, next);
+    stack.push(next);
+  }
+}
+
+function prim(builder: MazeBuilder) {
+  const { cellRows, cellCols } = getCellCounts(builder);
+  fillWalls(builder);
+
+  const inMaze = new Set<string>();
+  // Frontier edges from a cell already in the maze to a neighbour that may not be
+  const frontier: [Cell, Cell][] = [];
+  const addCell = (cell: Cell) => {
+    inMaze.add(`${cell.row}-${cell.col}`);
+    for (const neighbor of getCellNeighbors(cell, cellRows, cellCols)) {
+      if (!inMaze.has(`${neighbor.row}-${neighbor.col}`)) frontier.push([cell, neighbor]);
+    }
+  };
+
+  const start = { row: randomInt(cellRows), col: randomInt(cellCols) };
+  carveCell(builder, start);
+  addCell(start);
+
+  while (frontier.length > 0) {
+    const index = randomInt(frontier.length);
+    const [from, to] = frontier[index];
+    frontier[index] = frontier[frontier.length - 1];
+    frontier.pop();
+    if (inMaze.has(`${to.row}-${to.col}`)) continue;
+    carvePassage(builder, from, to);
+    addCell(to);
+  }
+}
+
+function kruskal(builder: MazeBuilder) {
+  const { cellRows, cellCols } = getCellCounts(builder);
+  fillWalls(builder);
+
+  const parent: number[] = [];
+  for (let i = 0; i < cellRows * cellCols; i++) parent.push(i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  const edges: [Cell, Cell][] = [];
+  for (let row = 0; row < cellRows; row++) {
+    for (let col = 0; col < cellCols; col++) {
+      if (row < cellRows - 1) edges.push([{ row, col }, { row: row + 1, col }]);
+      if (col < cellCols - 1) edges.push([{ row, col }, { row, col: col + 1 }]);
+    }
+  }
+
+  for (const [a, b] of shuffle(edges)) {
+    const rootA = find(a.row * cellCols + a.col);
+    const rootB = find(b.row * cellCols + b.col);
+    if (rootA === rootB) continue;
+    parent[rootA] = rootB;
+    carveCell(builder, a);
+    carvePassage(builder, a, b);
+  }
+}
+
+function eller(builder: MazeBuilder) {
+  const { cellRows, cellCols } = getCellCounts(builder);
+  fillWalls(builder);
+
+  let nextSet = 0;
+  let rowSets: number[] = [];
+  for (let col = 0; col < cellCols; col++) rowSets.push(nextSet++);
+
+  for (let row = 0; row < cellRows; row++) {
+    const isLastRow = row === cellRows - 1;
+    for (let col = 0; col < cellCols; col++) carveCell(builder, { row, col });
+
+    // Randomly join adjacent cells of different sets (the last row joins all of them)
+    for (let col = 0; col < cellCols - 1; col++) {
+      if (rowSets[col] === rowSets[col + 1]) continue;
+      if (!isLastRow && Math.random() < 0.5) continue;
+      const merged = rowSets[col + 1];
+      rowSets = rowSets.map(set => (set === merged ? rowSets[col] : set));
+      carvePassage(builder, { row, col }, { row, col: col + 1 });
+    }
+    if (isLastRow) break;
+
+    // Every set must extend down at least once
+    const nextRowSets: number[] = new Array(cellCols).fill(-1);
+    const columnsBySet = new Map<number, number[]>();
+    rowSets.forEach((set, col) => columnsBySet.set(set, [...(columnsBySet.get(set) ?? []), col]));
+    for (const [set, columns] of columnsBySet) {
+      const down = shuffle([...columns]).slice(0, 1 + randomInt(columns.length));
+      for (const col of down) {
+        carvePassage(builder, { row, col }, { row: row + 1, col });
+        nextRowSets[col] = set;
+      }
+    }
+    rowSets = nextRowSets.map(set => (set === -1 ? nextSet++ : set));
+  }
+}
+
+function binaryTree(builder: MazeBuilder) {
+  const { cellRows, cellCols } = getCellCounts(builder);
+  fillWalls(builder);
+
+  for (let row = 0; row < cellRows; row++) {
+    for (let col = 0; col < cellCols; col++) {
+      const cell = { row, col };
+      carveCell(builder, cell);
+      // Carve north or west; the top row and left column become long corridors
+      const options: Cell[] = [];
+      if (row > 0) options.push({ row: row - 1, col });
+      if (col > 0) options.push({ row, col: col - 1 });
+      if (options.length > 0) carvePassage(builder, cell, randomItem(options));
+    }
+  }
+}
+
+function sidewinder(builder: MazeBuilder) {
+  const { cellRows, cellCols } = getCellCounts(builder);
+  fillWalls(builder);
+
+  for (let row = 0; row < cellRows; row++) {
+    let runStart = 0;
+    for (let col = 0; col < cellCols; col++) {
+      carveCell(builder, { row, col });
+      const atEasternEdge = col === cellCols - 1;
+      const closeRun = atEasternEdge || (row > 0 && Math.random() < 0.5);
+
+      if (!closeRun) {
+        carvePassage(builder, { row, col }, { row, col: col + 1 });
+        continue;
+      }
+      // Close the run by carving north from one of its cells (the top row is one open corridor)
+      if (row > 0) {
+        const runCol = runStart + randomInt(col - runStart + 1);
+        carvePassage(builder, { row, col: runCol }, { row: row - 1, col: runCol });
+      }
+      runStart = col + 1;
+    }
+  }
+}
+
+/**
+ * Opens the fewest walls needed to connect two cells (0-1 BFS where entering a wall costs 1).
+ * Perfect mazes already connect every room, so this only matters when a marker sits on a wall line.
+ */
+function connectCells(builder: MazeBuilder, start: Cell, finish: Cell) {
+  const { rows, cols } = builder;
+  const cost: number[] = new Array(rows * cols).fill(Infinity);
+  const previous: number[] = new Array(rows * cols).fill(-1);
+  const startIndex = start.row * cols + start.col;
+  const finishIndex = finish.row * cols + finish.col;
+  cost[startIndex] = 0;
+
+  const deque: number[] = [startIndex];
+  while (deque.length > 0) {
+    const index = deque.shift()!;
+    if (index === finishIndex) break;
+    const row = Math.floor(index / cols);
+    const col = index % cols;
+    for (const [dRow, dCol] of [[-1, 0], [1, 0], [0, -1], [0, 1]]) {
+      const r = row + dRow;
+      const c = col + dCol;
+      if (r < 0 || r >= rows || c < 0 || c >= cols) continue;
+      const next = r * cols + c;
+      const stepCost = builder.isWall(r, c) ? 1 : 0;
+      if (cost[index] + stepCost < cost[next]) {
+        cost[next] = cost[index] + stepCost;
+        previous[next] = index;
+        if (stepCost === 0) deque.unshift(next);
+        else deque.push(next);
+      }
+    }
+  }
+
+  for (let index = finishIndex; index !== -1; index = previous[index]) {
+    const row = Math.floor(index / cols);
+    const col = index % cols;
+    if (builder.isWall(row, col)) builder.setWall(row, col, false);
+  }
+}
+
+// Connects each cell of the route to the next, so start, every waypoint and finish are reachable from one another
+function connectRoute(builder: MazeBuilder, route: Cell[]) {
+  for (let i = 1; i < route.length; i++) connectCells(builder, route[i - 1], route[i]);
+}
+
+const isSameCell = (a: Cell, b: Cell) => a.row === b.row && a.col === b.col;
+
+const getWaypointNodes = (grid: NodeData[][]) =>
+  grid.flat().filter(node => node.waypointNumber !== null).sort((a, b) => a.waypointNumber! - b.waypointNumber!);
+
+export const generateMaze = (
   grid: NodeData[][],
-): NodeData[][] => {
+  type: MazeType,
+  start: GridPosition,
+  finish: GridPosition
+): { grid: NodeData[][]; steps: MazeStep[] } => {
   // Create a fresh copy of the grid with no walls first to ensure we don't just add to existing walls
   const newGrid = grid.map(row => 
     row.map(node => ({
       ...node,
       isWall: false,
+      weight: DEFAULT_NODE_WEIGHT,
       isVisited: false,
       distance: Infinity,
       totalDistance: Infinity,
@@ -16,21 +379,59 @@ export const generateRandomMaze = (
     }))
   );
 
-  // Randomly assign walls
-  // Density of 0.3 (30%) usually provides a good balance of obstacles without blocking too many paths completely
-  const WALL_DENSITY = 0.3;
-
-  for (let row = 0; row < newGrid.length; row++) {
-    for (let col = 0; col < newGrid[0].length; col++) {
+  const steps: MazeStep[] = [];
+  const builder: MazeBuilder = {
+    rows: newGrid.length,
+    cols: newGrid[0].length,
+    isWall: (row, col) => newGrid[row][col].isWall,
+    setWall: (row, col, isWall, instant = false) => {
       const node = newGrid[row][col];
-      // Never overwrite start or finish nodes
-      if (node.isStart || node.isFinish) continue;
+      // Never overwrite start, finish or waypoint nodes
+      if (node.isStart || node.isFinish || node.waypointNumber !== null || node.isWall === isWall) return;
+      node.isWall = isWall;
+      steps.push({ row, col, isWall, instant });
+    },
+  };
 
-      if (Math.random() < WALL_DENSITY) {
-        node.isWall = true;
-      }
-    }
+  switch (type) {
+    case 'random':
+      randomWalls(builder);
+      break;
+    case 'recursiveDivision':
+      recursiveDivision(builder, null);
+      break;
+    case 'recursiveDivisionHorizontal':
+      recursiveDivision(builder, 'horizontal');
+      break;
+    case 'recursiveDivisionVertical':
+      recursiveDivision(builder, 'vertical');
+      break;
+    case 'dfsBacktracker':
+      dfsBacktracker(builder);
+      break;
+    case 'prim':
+      prim(builder);
+      break;
+    case 'kruskal':
+      kruskal(builder);
+      break;
+    case 'eller':
+      eller(builder);
+      break;
+    case 'binaryTree':
+      binaryTree(builder);
+      break;
+    case 'sidewinder':
+      sidewinder(builder);
+      break;
   }
 
-  return newGrid;
-};
\ No newline at end of file
+  connectRoute(builder, [start, ...getWaypointNodes(newGrid), finish]);
+  // Extra starts and finishes carry the same flags as the main pair; each is tied to its main endpoint
+  newGrid.flat().forEach(node => {
+    if (node.isStart && !isSameCell(node, start)) connectCells(builder, start, node);
+    if (node.isFinish && !isSameCell(node, finish)) connectCells(builder, node, finish);
+  });
+
+  return { grid: newGrid, steps };
+};
@@ -0,0 +1,100 @@
+import { AlgorithmResult, GridGraph, NodeData, PathValidation } from '../types';
+import { getCycleCost, getPathCost, hasNegativeCosts } from './gridGraph';
+
+/**
+ * Checks a search result against the board rather than trusting its length: the visit order
+ * must not repeat nodes, and the path must run start -> finish through open, adjacent cells
+ * at the optimal cost. Returns the first problem found.
+ */
+
+export interface ValidationOptions {
+  // Negative cycle found by the ground-truth search; when there is one, no shortest path exists
+  optimalNegativeCycle: NodeData[];
+  // Whether the algorithm handles negative costs. Boards with boost cells are not valid input for the others.
+  handlesNegativeCosts: boolean;
+}
+
+const formatCell = (node: NodeData) => `(${node.row}, ${node.col})`;
+
+const formatCost = (cost: number) => Number(cost.toFixed(2)).toString();
+
+const invalid = (reason: string): PathValidation => ({ isValid: false, reason });
+
+// Multi-source/multi-goal runs pass every start and finish; the path may join any start to any finish
+export const validateSearchResult = (
+  graph: GridGraph,
+  startNodes: NodeData[],
+  finishNodes: NodeData[],
+  result: AlgorithmResult,
+  optimalPath: NodeData[],
+  { optimalNegativeCycle, handlesNegativeCosts }: ValidationOptions
+): PathValidation => {
+  const seen = new Set<NodeData>();
+  for (const node of result.visitedNodesInOrder) {
+    if (seen.has(node)) return invalid(`Visited ${formatCell(node)} more than once`);
+    seen.add(node);
+  }
+
+  if (!handlesNegativeCosts && hasNegativeCosts(graph.grid)) {
+    return invalid('Boost cells have negative costs, which this algorithm assumes never happen, so its result is not valid for this board');
+  }
+
+  if (result.gaveUpAfter !== undefined) {
+    return invalid(`Gave up after ${result.gaveUpAfter.toLocaleString()} expansions without reaching an answer`);
+  }
+
+  const negativeCycle = result.negativeCycle ?? [];
+  if (negativeCycle.length > 0) {
+    if (optimalNegativeCycle.length === 0) return invalid('Reported a negative cycle, but the board has none reachable');
+    for (let i = 0; i < negativeCycle.length; i++) {
+      const node = negativeCycle[i];
+      const next = negativeCycle[(i + 1) % negativeCycle.length];
+      if (node.isWall) return invalid(`Negative cycle crosses a wall at ${formatCell(node)}`);
+      if (!graph.getNeighbors(node).includes(next)) {
+        return invalid(`Negative cycle jumps from ${formatCell(node)} to ${formatCell(next)}`);
+      }
+    }
+    const cycleCost = getCycleCost(graph, negativeCycle);
+    if (cycleCost >= 0) return invalid(`Reported cycle costs ${formatCost(cycleCost)}, which is not negative`);
+    return { isValid: true, reason: null };
+  }
+  if (optimalNegativeCycle.length > 0) {
+    return invalid(`Missed a negative cycle through ${formatCell(optimalNegativeCycle[0])}, so no shortest path exists`);
+  }
+
+  const path = result.nodesInShortestPathOrder;
+  if (path.length === 0) {
+    return optimalPath.length === 0 ? { isValid: true, reason: null } : invalid('No path returned, but the finish is reachable');
+  }
+
+  if (!startNodes.includes(path[0])) {
+    return invalid(`Path starts at ${formatCell(path[0])} instead of ${startNodes.length > 1 ? 'a' : 'the'} start node`);
+  }
+  const last = path[path.length - 1];
+  if (!finishNodes.includes(last)) {
+    return invalid(`Path ends at ${formatCell(last)} instead of ${finishNodes.length > 1 ? 'a' : 'the'} finish node`);
+  }
+
+  const onPath = new Set<NodeData>();
+  for (let i = 0; i < path.length; i++) {
+    const node = path[i];
+    if (node.isWall) return invalid(`Path crosses a wall at ${formatCell(node)}`);
+    if (onPath.has(node)) return invalid(`Path loops back through ${formatCell(node)}`);
+    onPath.add(node);
+    // Adjacency follows the graph, so diagonal moves and corner cutting obey the movement mode
+    if (i > 0 && !graph.getNeighbors(path[i - 1]).includes(node)) {
+      return invalid(`Path jumps from ${formatCell(path[i - 1])} to ${formatCell(node)}`);
+    }
+  }
+
+  if (optimalPath.length === 0) return invalid('Path returned, but the finish is unreachable');
+
+  // Diagonal √2 steps make costs floating point, hence the tolerance
+  const cost = getPathCost(graph, path);
+  const optimalCost = getPathCost(graph, optimalPath);
+  if (Math.abs(cost - optimalCost) >= 1e-9) {
+    return invalid(`Path cost ${formatCost(cost)} does not match the optimum ${formatCost(optimalCost)}`);
+  }
+
+  return { isValid: true, reason: null };
+};
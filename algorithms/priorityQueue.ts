@@ -0,0 +1,191 @@
+import { PriorityQueueType } from '../types';
+
+/**
+ * Priority queues shared by the search algorithms.
+ * Priorities are read through `compare`, so callers lower an item's key (e.g. node.distance)
+ * and then call `decreaseKey` to restore the queue order.
+ */
+
+export interface PriorityQueue<T> {
+  push: (item: T) => void;
+  pop: () => T | undefined;
+  // Restores the ordering after the item's priority has decreased
+  decreaseKey: (item: T) => void;
+  contains: (item: T) => boolean;
+  isEmpty: () => boolean;
+  size: () => number;
+}
+
+type Compare<T> = (a: T, b: T) => number;
+
+// Binary heap with an item -> index map, giving O(log n) push/pop/decreaseKey and O(1) contains
+function createBinaryHeap<T>(compare: Compare<T>): PriorityQueue<T> {
+  const heap: T[] = [];
+  const positions = new Map<T, number>();
+
+  const swap = (i: number, j: number) => {
+    [heap[i], heap[j]] = [heap[j], heap[i]];
+    positions.set(heap[i], i);
+    positions.set(heap[j], j);
+  };
+
+  const bubbleUp = (index: number) => {
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (compare(heap[index], heap[parent]) >= 0) break;
+      swap(index, parent);
+      index = parent;
+    }
+  };
+
+  const bubbleDown = (index: number) => {
+    while (true) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let smallest = index;
+      if (left < heap.length && compare(heap[left], heap[smallest]) < 0) smallest = left;
+      if (right < heap.length && compare(heap[right], heap[smallest]) < 0) smallest = right;
+      if (smallest === index) break;
+      swap(index, smallest);
+      index = smallest;
+    }
+  };
+
+  return {
+    push: (item) => {
+      heap.push(item);
+      positions.set(item, heap.length - 1);
+      bubbleUp(heap.length - 1);
+    },
+    pop: () => {
+      if (heap.length === 0) return undefined;
+      const min = heap[0];
+      const last = heap.pop()!;
+      positions.delete(min);
+      if (heap.length > 0) {
+        heap[0] = last;
+        positions.set(last, 0);
+        bubbleDown(0);
+      }
+      return min;
+    },
+    decreaseKey: (item) => {
+      const index = positions.get(item);
+      if (index !== undefined) bubbleUp(index);
+    },
+    contains: (item) => positions.has(item),
+    isEmpty: () => heap.length === 0,
+    size: () => heap.length,
+  };
+}
+
+interface PairingNode<T> {
+  item: T;
+  child: PairingNode<T> | null;
+  sibling: PairingNode<T> | null;
+  // Parent for a first child, previous sibling otherwise
+  prev: PairingNode<T> | null;
+}
+
+// Pairing heap: O(1) push and decreaseKey, amortized O(log n) pop
+function createPairingHeap<T>(compare: Compare<T>): PriorityQueue<T> {
+  let root: PairingNode<T> | null = null;
+  const nodes = new Map<T, PairingNode<T>>();
+
+  const meld = (a: PairingNode<T> | null, b: PairingNode<T> | null): PairingNode<T> | null => {
+    if (!a) return b;
+    if (!b) return a;
+    if (compare(b.item, a.item) < 0) [a, b] = [b, a];
+    // b becomes the first child of a
+    b.prev = a;
+    b.sibling = a.child;
+    if (a.child) a.child.prev = b;
+    a.child = b;
+    a.sibling = null;
+    a.prev = null;
+    return a;
+  };
+
+  // Standard two-pass pairing of a sibling list
+  const mergePairs = (first: PairingNode<T> | null): PairingNode<T> | null => {
+    const pairs: PairingNode<T>[] = [];
+    let current = first;
+    while (current) {
+      const a = current;
+      const b = current.sibling;
+      current = b ? b.sibling : null;
+      a.sibling = null;
+      a.prev = null;
+      if (b) {
+        b.sibling = null;
+        b.prev = null;
+      }
+      pairs.push(meld(a, b)!);
+    }
+    let result: PairingNode<T> | null = null;
+    for (let i = pairs.length - 1; i >= 0; i--) result = meld(pairs[i], result);
+    return result;
+  };
+
+  return {
+    push: (item) => {
+      const node: PairingNode<T> = { item, child: null, sibling: null, prev: null };
+      nodes.set(item, node);
+      root = meld(root, node);
+    },
+    pop: () => {
+      if (!root) return undefined;
+      const min = root;
+      nodes.delete(min.item);
+      root = mergePairs(min.child);
+      return min.item;
+    },
+    decreaseKey: (item) => {
+      const node = nodes.get(item);
+      if (!node || node === root) return;
+      // Cut the node's subtree out and meld it back in at the root
+      if (node.prev) {
+        if (node.prev.child === node) node.prev.child = node.sibling;
+        else node.prev.sibling = node.sibling;
+      }
+      if (node.sibling) node.sibling.prev = node.prev;
+      node.sibling = null;
+      node.prev = null;
+      root = meld(root, node);
+    },
+    contains: (item) => nodes.has(item),
+    isEmpty: () => root === null,
+    size: () => nodes.size,
+  };
+}
+
+// The original approach: re-sort an array on every pop and scan it for membership. Kept for timing comparisons.
+function createSortedArray<T>(compare: Compare<T>): PriorityQueue<T> {
+  const items: T[] = [];
+  return {
+    push: (item) => {
+      items.push(item);
+    },
+    pop: () => {
+      items.sort(compare);
+      return items.shift();
+    },
+    // Sorting happens on every pop, so there is nothing to restore
+    decreaseKey: () => {},
+    contains: (item) => items.includes(item),
+    isEmpty: () => items.length === 0,
+    size: () => items.length,
+  };
+}
+
+export const createPriorityQueue = <T,>(type: PriorityQueueType, compare: Compare<T>): PriorityQueue<T> => {
+  switch (type) {
+    case 'pairingHeap':
+      return createPairingHeap(compare);
+    case 'sortedArray':
+      return createSortedArray(compare);
+    case 'binaryHeap':
+    default:
+      return createBinaryHeap(compare);
+  }
+};
@@ -0,0 +1,60 @@
+import { AlgorithmResult, AlgorithmType, GridGraph, MultiEndpointAlgorithmType, NodeData, PriorityQueueType } from '../types';
+import { isMultiEndpointAlgorithm } from '../constants';
+import { dijkstra, multiSourceDijkstra } from './dijkstra';
+import { astar } from './astar';
+import { greedyBfs } from './greedyBfs';
+import { bidirectionalSwarm } from './bidirectionalSwarm';
+import { bmssp, multiSourceBmssp } from './bmssp';
+import { bfs } from './bfs';
+import { dfs } from './dfs';
+import { jps } from './jps';
+import { bellmanFord, multiSourceBellmanFord } from './bellmanFord';
+import { multiSourceSpfa, spfa } from './spfa';
+import { iddfs, idaStar } from './iterativeDeepening';
+import { dStarLite, lpaStar } from './incrementalSearch';
+
+export type PathfindingAlgorithm = (
+  graph: GridGraph,
+  startNode: NodeData,
+  finishNode: NodeData,
+  queueType?: PriorityQueueType
+) => AlgorithmResult;
+
+// Every selectable algorithm by its slug
+export const ALGORITHMS: Record<AlgorithmType, PathfindingAlgorithm> = {
+  dijkstra,
+  astar,
+  greedyBfs,
+  bidirectionalSwarm,
+  bmssp,
+  bfs,
+  dfs,
+  jps,
+  bellmanFord,
+  spfa,
+  idaStar,
+  iddfs,
+  lpaStar,
+  dStarLite,
+};
+
+// Searches from every start node at once to whichever finish node is nearest
+export type MultiEndpointAlgorithm = (
+  graph: GridGraph,
+  startNodes: NodeData[],
+  finishNodes: NodeData[],
+  queueType?: PriorityQueueType
+) => AlgorithmResult;
+
+export const MULTI_ENDPOINT_ALGORITHMS: Record<MultiEndpointAlgorithmType, MultiEndpointAlgorithm> = {
+  dijkstra: multiSourceDijkstra,
+  bmssp: multiSourceBmssp,
+  bellmanFord: multiSourceBellmanFord,
+  spfa: multiSourceSpfa,
+};
+
+// Throws for algorithms that only search between a single start and finish
+export const getMultiEndpointAlgorithm = (algorithm: AlgorithmType): MultiEndpointAlgorithm => {
+  if (!isMultiEndpointAlgorithm(algorithm)) throw new Error(`${algorithm} does not support several start or finish nodes`);
+  return MULTI_ENDPOINT_ALGORITHMS[algorithm];
+};
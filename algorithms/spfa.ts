@@ -0,0 +1,65 @@
+import { AlgorithmResult, GridGraph, NodeData } from '../types';
+import { findPredecessorCycle } from './gridGraph';
+import { RELAXATION_EPSILON, toLabelCorrectingResult } from './bellmanFord';
+
+/**
+ * Shortest Path Faster Algorithm: Bellman–Ford that only re-relaxes the neighbours of nodes whose distance
+ * just improved, kept in a FIFO queue. Same O(V·E) worst case, but usually far less work on grids.
+ */
+export const spfa = (
+  graph: GridGraph,
+  startNode: NodeData,
+  finishNode: NodeData
+): AlgorithmResult => multiSourceSpfa(graph, [startNode], [finishNode]);
+
+/**
+ * SPFA seeded with every start node at distance 0. A node can be queued again each time its distance improves;
+ * it counts as visited the first time it is dequeued.
+ */
+export const multiSourceSpfa = (
+  graph: GridGraph,
+  startNodes: NodeData[],
+  finishNodes: NodeData[]
+): AlgorithmResult => {
+  const visitedNodesInOrder: NodeData[] = [];
+  const nodes = graph.grid.flat().filter(node => !node.isWall);
+  const queue: NodeData[] = [];
+  const queued = new Set<NodeData>();
+  let head = 0;
+  for (const startNode of startNodes) {
+    startNode.distance = 0;
+    queue.push(startNode);
+    queued.add(startNode);
+  }
+
+  let relaxations = 0;
+  while (head < queue.length) {
+    const node = queue[head++];
+    queued.delete(node);
+    if (!node.isVisited) {
+      node.isVisited = true;
+      visitedNodesInOrder.push(node);
+    }
+
+    for (const neighbor of graph.getNeighbors(node)) {
+      const newDistance = node.distance + graph.getCost(node, neighbor);
+      if (newDistance >= neighbor.distance - RELAXATION_EPSILON) continue;
+      neighbor.distance = newDistance;
+      neighbor.previousNode = node;
+
+      // A negative cycle keeps the queue from ever emptying, but it soon closes a loop in the predecessor
+      // links; looking for one every V relaxations keeps the check at O(1) amortised per relaxation
+      if (++relaxations % nodes.length === 0) {
+        const negativeCycle = findPredecessorCycle(nodes);
+        if (negativeCycle) return toLabelCorrectingResult(visitedNodesInOrder, finishNodes, negativeCycle);
+      }
+
+      if (!queued.has(neighbor)) {
+        queue.push(neighbor);
+        queued.add(neighbor);
+      }
+    }
+  }
+
+  return toLabelCorrectingResult(visitedNodesInOrder, finishNodes, null);
+};
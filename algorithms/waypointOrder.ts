@@ -0,0 +1,121 @@
+import { WaypointOrderMethod } from '../types';
+
+/**
+ * Visiting order for unordered waypoints: a shortest Hamiltonian path from the start to the finish
+ * through every waypoint, over a matrix of pairwise path costs.
+ *
+ * `costs` is indexed [from][to] with 0 the start, 1..k the waypoints and k + 1 the finish; Infinity marks
+ * an unreachable pair. Costs may be asymmetric, since a step costs the weight of the cell it enters.
+ * Orders are returned as waypoint indices 1..k.
+ */
+
+export interface VisitingOrder {
+  order: number[];
+  cost: number;
+  method: WaypointOrderMethod;
+}
+
+// Total cost of start -> order... -> finish
+export const getOrderCost = (costs: number[][], order: number[]): number => {
+  const finish = costs.length - 1;
+  let cost = 0;
+  let previous = 0;
+  for (const waypoint of order) {
+    cost += costs[previous][waypoint];
+    previous = waypoint;
+  }
+  return cost + costs[previous][finish];
+};
+
+// Exact Held–Karp DP over subsets: O(2^k · k^2) time, O(2^k · k) memory
+export const heldKarp = (costs: number[][]): VisitingOrder => {
+  const k = costs.length - 2;
+  const finish = k + 1;
+  const subsetCount = 1 << k;
+  // best[mask * k + j]: cheapest start -> (all waypoints in mask) ending at waypoint j + 1
+  const best = new Float64Array(subsetCount * k).fill(Infinity);
+  const parent = new Int16Array(subsetCount * k).fill(-1);
+
+  for (let j = 0; j < k; j++) best[(1 << j) * k + j] = costs[0][j + 1];
+
+  for (let mask = 1; mask < subsetCount; mask++) {
+    for (let j = 0; j < k; j++) {
+      const cost = best[mask * k + j];
+      if (!(mask & (1 << j)) || cost === Infinity) continue;
+      for (let next = 0; next < k; next++) {
+        if (mask & (1 << next)) continue;
+        const nextMask = mask | (1 << next);
+        const nextCost = cost + costs[j + 1][next + 1];
+        if (nextCost < best[nextMask * k + next]) {
+          best[nextMask * k + next] = nextCost;
+          parent[nextMask * k + next] = j;
+        }
+      }
+    }
+  }
+
+  const fullMask = subsetCount - 1;
+  let last = 0;
+  let cost = Infinity;
+  for (let j = 0; j < k; j++) {
+    const total = best[fullMask * k + j] + costs[j + 1][finish];
+    if (total < cost) {
+      cost = total;
+      last = j;
+    }
+  }
+  // No complete route: fall back to the numbered order so there is still something to show
+  if (cost === Infinity) {
+    const order = Array.from({ length: k }, (_, i) => i + 1);
+    return { order, cost: getOrderCost(costs, order), method: 'heldKarp' };
+  }
+
+  const order: number[] = [];
+  let mask = fullMask;
+  for (let j = last; j !== -1; ) {
+    order.unshift(j + 1);
+    const previous = parent[mask * k + j];
+    mask &= ~(1 << j);
+    j = previous;
+  }
+  return { order, cost, method: 'heldKarp' };
+};
+
+// Greedy nearest-neighbour tour, then 2-opt segment reversals until none improves it
+export const nearestNeighbourTwoOpt = (costs: number[][]): VisitingOrder => {
+  const k = costs.length - 2;
+  const unvisited = new Set(Array.from({ length: k }, (_, i) => i + 1));
+  const order: number[] = [];
+  let current = 0;
+  while (unvisited.size > 0) {
+    let nearest = -1;
+    for (const waypoint of unvisited) {
+      if (nearest === -1 || costs[current][waypoint] < costs[current][nearest]) nearest = waypoint;
+    }
+    order.push(nearest);
+    unvisited.delete(nearest);
+    current = nearest;
+  }
+
+  // Reversing a segment also flips the direction its inner edges are walked, so whole tours are re-costed
+  let bestCost = getOrderCost(costs, order);
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let i = 0; i < k - 1; i++) {
+      for (let j = i + 1; j < k; j++) {
+        const candidate = [...order.slice(0, i), ...order.slice(i, j + 1).reverse(), ...order.slice(j + 1)];
+        const candidateCost = getOrderCost(costs, candidate);
+        if (candidateCost < bestCost - 1e-9) {
+          order.splice(0, k, ...candidate);
+          bestCost = candidateCost;
+          improved = true;
+        }
+      }
+    }
+  }
+  return { order, cost: bestCost, method: 'nearestNeighbourTwoOpt' };
+};
+
+export const solveVisitingOrder = (costs: number[][], maxExactWaypoints: number): VisitingOrder =>
+  costs.length - 2 <= maxExactWaypoints ? heldKarp(costs) : nearestNeighbourTwoOpt(costs);
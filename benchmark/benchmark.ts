@@ -0,0 +1,217 @@
+import { AlgorithmType, GridPosition, GridSize, MovementMode, PriorityQueueType, SerializedGrid } from '../types';
+import { DEFAULT_NODE_WEIGHT } from '../constants';
+import { createGridGraph, getPathCost } from '../algorithms/gridGraph';
+import { dijkstra } from '../algorithms/dijkstra';
+import { ALGORITHMS, PathfindingAlgorithm } from '../algorithms/registry';
+import { deserializeGrid } from '../workers/serialization';
+
+/**
+ * Headless benchmark: runs every algorithm over batches of random boards and reports timing
+ * percentiles alongside search quality. No DOM required, so it runs under plain Node.
+ */
+
+export interface BenchmarkConfig {
+  sizes: GridSize[];
+  // Fraction of cells turned into walls, 0..1
+  wallDensities: number[];
+  // Distinct random boards per size/density pair
+  gridsPerConfig: number;
+  // Untimed runs per board before measuring, so the JIT has settled
+  warmupRuns: number;
+  // Timed runs per board
+  iterations: number;
+  algorithms: AlgorithmType[];
+  movement: MovementMode;
+  queueType: PriorityQueueType;
+  seed: number;
+}
+
+export interface BenchmarkRow {
+  algorithm: AlgorithmType;
+  rows: number;
+  cols: number;
+  wallDensity: number;
+  grids: number;
+  runs: number;
+  medianMs: number;
+  p95Ms: number;
+  // Medians across boards (the counts are deterministic per board)
+  visitedNodes: number;
+  pathLength: number;
+  // Share of boards on which the found path cost matched Dijkstra's
+  optimalRate: number;
+  // Boards on which the algorithm threw or gave up at its expansion limit; left out of the figures above
+  // and never counted as optimal
+  failedGrids: number;
+}
+
+export const DEFAULT_BENCHMARK_CONFIG: BenchmarkConfig = {
+  sizes: [
+    { rows: 25, cols: 50 },
+    { rows: 50, cols: 100 },
+    { rows: 100, cols: 100 },
+    { rows: 200, cols: 200 },
+  ],
+  wallDensities: [0, 0.1, 0.2, 0.3],
+  gridsPerConfig: 3,
+  warmupRuns: 2,
+  iterations: 10,
+  // Bellman–Ford is left out by default: its O(V·E) passes dominate the run on the larger boards.
+  // So are IDA* and IDDFS, which give up on the larger open boards.
+  algorithms: ['dijkstra', 'astar', 'greedyBfs', 'bidirectionalSwarm', 'bmssp', 'bfs', 'dfs', 'jps', 'spfa', 'lpaStar', 'dStarLite'],
+  movement: 'fourWay',
+  queueType: 'binaryHeap',
+  seed: 1,
+};
+
+// Small seeded PRNG (mulberry32) so a benchmark board set is reproducible across runs and machines
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+interface BenchmarkBoard {
+  grid: SerializedGrid;
+  start: GridPosition;
+  finish: GridPosition;
+}
+
+// Start and finish sit in opposite corners so every search has to cross the whole board
+const generateBoard = (size: GridSize, wallDensity: number, random: () => number): BenchmarkBoard => {
+  const cellCount = size.rows * size.cols;
+  const walls = new Uint8Array(cellCount);
+  const weights = new Float64Array(cellCount).fill(DEFAULT_NODE_WEIGHT);
+  for (let i = 0; i < cellCount; i++) {
+    walls[i] = random() < wallDensity ? 1 : 0;
+  }
+  const start = { row: 0, col: 0 };
+  const finish = { row: size.rows - 1, col: size.cols - 1 };
+  walls[0] = 0;
+  walls[cellCount - 1] = 0;
+  return { grid: { rows: size.rows, cols: size.cols, walls, weights }, start, finish };
+};
+
+// Algorithms mark nodes as they search, so every run gets a freshly built board
+const runOnce = (algorithm: PathfindingAlgorithm, board: BenchmarkBoard, config: BenchmarkConfig) => {
+  const grid = deserializeGrid(board.grid);
+  const startNode = grid[board.start.row][board.start.col];
+  const finishNode = grid[board.finish.row][board.finish.col];
+  startNode.isStart = true;
+  finishNode.isFinish = true;
+  const graph = createGridGraph(grid, config.movement);
+
+  const startTime = performance.now();
+  const result = algorithm(graph, startNode, finishNode, config.queueType);
+  const durationMs = performance.now() - startTime;
+
+  return {
+    durationMs,
+    gaveUp: result.gaveUpAfter !== undefined,
+    visitedNodes: result.visitedNodesInOrder.length,
+    pathLength: result.nodesInShortestPathOrder.length,
+    pathCost: getPathCost(graph, result.nodesInShortestPathOrder),
+  };
+};
+
+const percentile = (values: number[], p: number): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const index = Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1);
+  return sorted[Math.max(0, index)];
+};
+
+export const runBenchmark = (
+  config: BenchmarkConfig = DEFAULT_BENCHMARK_CONFIG,
+  onProgress?: (message: string) => void
+): BenchmarkRow[] => {
+  const random = createRandom(config.seed);
+  const rows: BenchmarkRow[] = [];
+
+  for (const size of config.sizes) {
+    for (const wallDensity of config.wallDensities) {
+      const boards = Array.from({ length: config.gridsPerConfig }, () => generateBoard(size, wallDensity, random));
+      // Unreachable boards count as optimal only when the algorithm also finds nothing
+      const optimalCosts = boards.map(board => {
+        const reference = runOnce(dijkstra, board, config);
+        return { cost: reference.pathCost, found: reference.pathLength > 0 };
+      });
+
+      for (const algorithmType of config.algorithms) {
+        onProgress?.(`${algorithmType} on ${size.rows}x${size.cols} at ${wallDensity} wall density`);
+        const algorithm = ALGORITHMS[algorithmType];
+        const times: number[] = [];
+        const visitedCounts: number[] = [];
+        const pathLengths: number[] = [];
+        let optimalBoards = 0;
+        let failedGrids = 0;
+
+        boards.forEach((board, i) => {
+          // A failure on one board is recorded, so the remaining boards and algorithms still report
+          const boardTimes: number[] = [];
+          let last: ReturnType<typeof runOnce>;
+          try {
+            for (let run = 0; run < config.warmupRuns; run++) runOnce(algorithm, board, config);
+            last = runOnce(algorithm, board, config);
+            boardTimes.push(last.durationMs);
+            for (let run = 1; run < config.iterations && !last.gaveUp; run++) {
+              last = runOnce(algorithm, board, config);
+              boardTimes.push(last.durationMs);
+            }
+          } catch (e) {
+            onProgress?.(`  ${algorithmType} failed on board ${i + 1}: ${e instanceof Error ? e.message : String(e)}`);
+            failedGrids++;
+            return;
+          }
+          if (last.gaveUp) {
+            onProgress?.(`  ${algorithmType} gave up on board ${i + 1}`);
+            failedGrids++;
+            return;
+          }
+          times.push(...boardTimes);
+          visitedCounts.push(last.visitedNodes);
+          pathLengths.push(last.pathLength);
+          const optimal = optimalCosts[i];
+          if ((last.pathLength > 0) === optimal.found && Math.abs(last.pathCost - optimal.cost) < 1e-9) optimalBoards++;
+        });
+
+        rows.push({
+          algorithm: algorithmType,
+          rows: size.rows,
+          cols: size.cols,
+          wallDensity,
+          grids: boards.length,
+          runs: times.length,
+          medianMs: percentile(times, 50),
+          p95Ms: percentile(times, 95),
+          visitedNodes: percentile(visitedCounts, 50),
+          pathLength: percentile(pathLengths, 50),
+          optimalRate: boards.length === 0 ? 0 : optimalBoards / boards.length,
+          failedGrids,
+        });
+      }
+    }
+  }
+
+  return rows;
+};
+
+const CSV_COLUMNS: (keyof BenchmarkRow)[] = [
+  'algorithm', 'rows', 'cols', 'wallDensity', 'grids', 'runs', 'medianMs', 'p95Ms', 'visitedNodes', 'pathLength', 'optimalRate', 'failedGrids',
+];
+
+export const toCsv = (rows: BenchmarkRow[]): string => {
+  const lines = rows.map(row => CSV_COLUMNS.map(column => {
+    const value = row[column];
+    return typeof value === 'number' ? String(Number(value.toFixed(4))) : value;
+  }).join(','));
+  return [CSV_COLUMNS.join(','), ...lines].join('\n');
+};
+
+export const toJson = (config: BenchmarkConfig, rows: BenchmarkRow[]): string =>
+  JSON.stringify({ generatedAt: new Date().toISOString(), config, results: rows }, null, 2);
@@ -0,0 +1,111 @@
+import { writeFileSync } from 'fs';
+import { AlgorithmType, GridSize, MovementMode, PriorityQueueType } from '../types';
+import { MAX_GRID_DIMENSION, MIN_GRID_DIMENSION } from '../constants';
+import { ALGORITHMS } from '../algorithms/registry';
+import { BenchmarkConfig, DEFAULT_BENCHMARK_CONFIG, runBenchmark, toCsv, toJson } from './benchmark';
+
+/**
+ * Command line entry for the benchmark (`npm run benchmark -- --format csv --out results.csv`).
+ *
+ * Options:
+ *   --sizes 25x50,100x100      board sizes
+ *   --densities 0,0.2,0.3      wall densities
+ *   --grids 3                  random boards per size/density
+ *   --warmup 2                 untimed runs per board
+ *   --iterations 10            timed runs per board
+ *   --algorithms astar,bmssp   subset of algorithms
+ *   --movement fourWay         fourWay | eightWay | eightWayNoCornerCutting
+ *   --queue binaryHeap         binaryHeap | pairingHeap | sortedArray
+ *   --seed 1                   board generator seed
+ *   --format json              json | csv
+ *   --out file                 write to a file instead of stdout
+ */
+
+const parseArgs = (argv: string[]): Map<string, string> => {
+  const args = new Map<string, string>();
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) throw new Error(`Unexpected argument "${arg}"`);
+    const value = argv[i + 1];
+    if (value === undefined || value.startsWith('--')) throw new Error(`Missing value for ${arg}`);
+    args.set(arg.slice(2), value);
+    i++;
+  }
+  return args;
+};
+
+const parseNumber = (name: string, value: string): number => {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) throw new Error(`Invalid --${name} "${value}"`);
+  return parsed;
+};
+
+const parseSizes = (value: string): GridSize[] =>
+  value.split(',').map(size => {
+    const match = /^(\d+)x(\d+)$/.exec(size.trim());
+    if (!match) throw new Error(`Invalid --sizes "${size}", expected ROWSxCOLS`);
+    const rows = Number(match[1]);
+    const cols = Number(match[2]);
+    const isInRange = (n: number) => n >= MIN_GRID_DIMENSION && n <= MAX_GRID_DIMENSION;
+    if (!isInRange(rows) || !isInRange(cols)) {
+      throw new Error(`Invalid --sizes "${size}", rows and columns must be ${MIN_GRID_DIMENSION} to ${MAX_GRID_DIMENSION}`);
+    }
+    return { rows, cols };
+  });
+
+const parseAlgorithms = (value: string): AlgorithmType[] =>
+  value.split(',').map(name => {
+    const algorithm = name.trim() as AlgorithmType;
+    if (!(algorithm in ALGORITHMS)) throw new Error(`Unknown algorithm "${name}"`);
+    return algorithm;
+  });
+
+const MOVEMENT_MODES: MovementMode[] = ['fourWay', 'eightWay', 'eightWayNoCornerCutting'];
+const QUEUE_TYPES: PriorityQueueType[] = ['binaryHeap', 'pairingHeap', 'sortedArray'];
+
+const parseChoice = <T extends string>(name: string, value: string, choices: T[]): T => {
+  const choice = choices.find(c => c === value);
+  if (!choice) throw new Error(`Invalid --${name} "${value}", expected ${choices.join(' | ')}`);
+  return choice;
+};
+
+const main = () => {
+  const args = parseArgs(process.argv.slice(2));
+  const config: BenchmarkConfig = { ...DEFAULT_BENCHMARK_CONFIG };
+
+  for (const [name, value] of args) {
+    switch (name) {
+      case 'sizes': config.sizes = parseSizes(value); break;
+      case 'densities': config.wallDensities = value.split(',').map(d => parseNumber(name, d)); break;
+      case 'grids': config.gridsPerConfig = parseNumber(name, value); break;
+      case 'warmup': config.warmupRuns = parseNumber(name, value); break;
+      case 'iterations': config.iterations = Math.max(1, parseNumber(name, value)); break;
+      case 'algorithms': config.algorithms = parseAlgorithms(value); break;
+      case 'movement': config.movement = parseChoice(name, value, MOVEMENT_MODES); break;
+      case 'queue': config.queueType = parseChoice(name, value, QUEUE_TYPES); break;
+      case 'seed': config.seed = parseNumber(name, value); break;
+      case 'format':
+      case 'out':
+        break;
+      default: throw new Error(`Unknown option --${name}`);
+    }
+  }
+
+  const format = args.get('format') ?? 'json';
+  if (format !== 'json' && format !== 'csv') throw new Error(`Invalid --format "${format}"`);
+
+  // Progress goes to stderr so stdout stays clean for piping the report
+  const rows = runBenchmark(config, message => process.stderr.write(`${message}\n`));
+  const output = format === 'csv' ? toCsv(rows) : toJson(config, rows);
+
+  const out = args.get('out');
+  if (out) writeFileSync(out, `${output}\n`);
+  else process.stdout.write(`${output}\n`);
+};
+
+try {
+  main();
+} catch (e) {
+  process.stderr.write(`${e instanceof Error ? e.message : String(e)}\n`);
+  process.exit(1);
+}
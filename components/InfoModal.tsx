@@ -1,8 +1,10 @@
 import React from 'react';
+import { GridSize } from '../types';
 
 interface InfoModalProps {
   isOpen: boolean;
   onClose: () => void;
+  gridSize: GridSize;
 }
 
 const algorithms = [
@@ -14,7 +16,7 @@ const algorithms = [
   },
   {
     name: "A* Search",
-    description: "Widely considered the best choice for pathfinding. It uses a heuristic function (Manhattan distance) to estimate the cost to the goal, prioritizing promising paths. It guarantees the shortest path and is usually faster than Dijkstra.",
+    description: "Widely considered the best choice for pathfinding. It uses a heuristic function (Manhattan distance, or octile distance when diagonal moves are enabled) to estimate the cost to the goal, prioritizing promising paths. It guarantees the shortest path and is usually faster than Dijkstra.",
     time: "O(E)",
     space: "O(V)"
   },
@@ -32,13 +34,67 @@ const algorithms = [
   },
   {
     name: "BMSSP (Duan et al. '25)",
-    description: "Bounded Multi-Source Shortest Path. A recent theoretical breakthrough (2025) that breaks the classical sorting barrier for directed graphs. It uses a complex divide-and-conquer approach on distance values to achieve sub-logarithmic overhead per edge.",
+    description: "Bounded Multi-Source Shortest Path. A recent theoretical breakthrough (2025) that breaks the classical sorting barrier for directed graphs. It uses a complex divide-and-conquer approach on distance values to achieve sub-logarithmic overhead per edge. Being multi-source by design, it takes every start at once when extra starts or finishes are placed (compare it with Dijkstra, which then runs multi-source too).",
     time: "O(m log^(2/3) n)",
     space: "O(V + m)"
+  },
+  {
+    name: "Breadth-First Search",
+    description: "Explores the grid ring by ring, one step further each time. It finds the path with the fewest moves but ignores terrain costs, so on weighted boards (or with diagonal moves, which cost more) its path can be more expensive than Dijkstra's.",
+    time: "O(V + E)",
+    space: "O(V)"
+  },
+  {
+    name: "Depth-First Search",
+    description: "Follows one direction as far as it can, backtracking only at dead ends. It will find a path if one exists, but usually a long, winding one. Shown as a contrast to the shortest-path algorithms.",
+    time: "O(V + E)",
+    space: "O(V)"
+  },
+  {
+    name: "Jump Point Search",
+    description: "A* that skips over runs of equivalent cells, only stopping at \"jump points\" where a wall forces a turn. Neighbours an optimal path never needs are pruned; the visualization marks jump points in cyan and pruned neighbours faintly. Optimal on uniform-cost grids, but it assumes every cell costs the same, so terrain can make its path longer than Dijkstra's.",
+    time: "O(E) worst case",
+    space: "O(V)"
+  },
+  {
+    name: "Bellman–Ford",
+    description: "Relaxes every edge of the grid, pass after pass, until no distance improves. Slow, but unlike Dijkstra it never commits to a node early, so it stays correct with negative-cost boost cells. When boosts form a negative cycle (two adjacent boosts are enough) there is no shortest path: it stops and highlights the cycle instead.",
+    time: "O(V · E)",
+    space: "O(V)"
+  },
+  {
+    name: "SPFA (Shortest Path Faster)",
+    description: "Bellman–Ford with a queue: only neighbours of cells whose distance just improved are relaxed again. Same worst case, but usually close to Dijkstra's speed on grids. Handles boost cells and detects negative cycles like Bellman–Ford. Every other algorithm here assumes non-negative costs, so on boards with boosts its result is flagged as not valid for that input.",
+    time: "O(V · E) worst case",
+    space: "O(V)"
+  },
+  {
+    name: "IDA* (Iterative-Deepening A*)",
+    description: "A depth-first search that stops wherever f = g + h passes a threshold, restarted with the threshold raised to the smallest f that went past it. Its stack holds only the current path, so it finds the same optimal path as A* while re-expanding cells in every iteration. Each iteration is drawn in turn with its threshold; re-expanded cells are shaded darker. Within an iteration a cell is only entered again when reached more cheaply than before; a run that still passes 200,000 expansions gives up and is reported as such.",
+    time: "O(b^d) worst case",
+    space: "O(V) cost table, O(d) stack"
+  },
+  {
+    name: "IDDFS (Iterative-Deepening DFS)",
+    description: "Depth-first search limited to a number of steps, restarted with the limit one step higher until the finish is in reach. Like BFS it finds the path with the fewest moves and ignores terrain costs, with a stack only as deep as the current path. Within an iteration a cell is only entered again in fewer steps than before; a run that still passes 200,000 expansions gives up and is reported as such. Mazes and corridors suit it best.",
+    time: "O(b^d)",
+    space: "O(V) cost table, O(d) stack"
+  },
+  {
+    name: "LPA* (Lifelong Planning A*)",
+    description: "A* that keeps its search after it finishes. Every cell remembers its distance and the best distance its neighbours offer; when you add or remove walls after a run, only cells where the two disagree are expanded again. The repaired cells are re-animated and the stats compare them with Dijkstra and A* searching the edited board from scratch. Moving the start or finish, or changing settings, starts over.",
+    time: "O(V log V) first run, repairs proportional to what changed",
+    space: "O(V)"
+  },
+  {
+    name: "D* Lite",
+    description: "LPA* run backwards from the finish, so distances are measured to the goal. That is what lets a robot walking the path replan from wherever it stands; here it repairs wall edits the same way LPA* does.",
+    time: "O(V log V) first run, repairs proportional to what changed",
+    space: "O(V)"
   }
 ];
 
-const InfoModal: React.FC<InfoModalProps> = ({ isOpen, onClose }) => {
+const InfoModal: React.FC<InfoModalProps> = ({ isOpen, onClose, gridSize }) => {
   if (!isOpen) return null;
 
   return (
@@ -95,7 +151,7 @@ const InfoModal: React.FC<InfoModalProps> = ({ isOpen, onClose }) => {
               <p className="opacity-80">
                 <strong>V</strong> = Vertices (Grid Cells), <strong>E</strong> = Edges (Neighbors), <strong>m</strong> = Edges (Sparse Graph).
                 <br/>
-                This grid has <span className="font-mono text-xs bg-slate-900 px-1 rounded">25x50 = 1250</span> vertices. Each cell has up to 4 edges.
+                This grid has <span className="font-mono text-xs bg-slate-900 px-1 rounded">{gridSize.rows}x{gridSize.cols} = {gridSize.rows * gridSize.cols}</span> vertices. Each cell has up to 4 edges, or 8 with diagonal movement.
               </p>
             </div>
           </div>
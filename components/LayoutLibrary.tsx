@@ -0,0 +1,187 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GridLayout, GridPosition, NodeData } from '../types';
+import { createLayout, exportLayouts, importLayouts, loadStoredLayouts, storeLayouts } from '../layouts/layoutLibrary';
+
+interface LayoutLibraryProps {
+  isOpen: boolean;
+  onClose: () => void;
+  grid: NodeData[][];
+  startPos: GridPosition;
+  finishPos: GridPosition;
+  onLoad: (layout: GridLayout) => void;
+}
+
+const buttonClassName = "px-3 py-1.5 text-xs font-medium text-slate-300 bg-slate-800 rounded-lg hover:bg-slate-700 disabled:opacity-50 transition-all border border-slate-700";
+
+const LayoutLibrary: React.FC<LayoutLibraryProps> = ({ isOpen, onClose, grid, startPos, finishPos, onLoad }) => {
+  const [layouts, setLayouts] = useState<GridLayout[]>(loadStoredLayouts);
+  const [newName, setNewName] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) {
+      setRenamingId(null);
+      setMessage(null);
+    }
+  }, [isOpen]);
+
+  const updateLayouts = (updated: GridLayout[]) => {
+    setLayouts(updated);
+    storeLayouts(updated);
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newName.trim();
+    if (!name) return;
+    updateLayouts([createLayout(name, grid, startPos, finishPos), ...layouts]);
+    setNewName('');
+    setMessage({ text: `Saved "${name}".`, isError: false });
+  };
+
+  const commitRename = (id: string) => {
+    const name = renameValue.trim();
+    if (name) updateLayouts(layouts.map(layout => (layout.id === id ? { ...layout, name } : layout)));
+    setRenamingId(null);
+  };
+
+  const handleDelete = (layout: GridLayout) => {
+    if (!window.confirm(`Delete layout "${layout.name}"?`)) return;
+    updateLayouts(layouts.filter(l => l.id !== layout.id));
+  };
+
+  const handleLoad = (layout: GridLayout) => {
+    onLoad(layout);
+    onClose();
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportLayouts(layouts)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'pathfinder-layouts.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = importLayouts(await file.text());
+      updateLayouts([...imported, ...layouts]);
+      setMessage({ text: `Imported ${imported.length} layout${imported.length === 1 ? '' : 's'}.`, isError: false });
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : String(err), isError: true });
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="bg-slate-900 border border-slate-700 rounded-xl shadow-2xl max-w-3xl w-full max-h-[85vh] overflow-hidden flex flex-col modal-animate"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="p-6 border-b border-slate-700 flex justify-between items-center bg-slate-800/50">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-indigo-500/20 rounded-lg text-indigo-400">
+              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M3.75 9.776c.112-.017.227-.026.344-.026h15.812c.117 0 .232.009.344.026m-16.5 0a2.25 2.25 0 0 0-1.883 2.542l.857 6a2.25 2.25 0 0 0 2.227 1.932H19.05a2.25 2.25 0 0 0 2.227-1.932l.857-6a2.25 2.25 0 0 0-1.883-2.542m-16.5 0V6A2.25 2.25 0 0 1 6 3.75h3.879a1.5 1.5 0 0 1 1.06.44l2.122 2.12a1.5 1.5 0 0 0 1.06.44H18A2.25 2.25 0 0 1 20.25 9v.776" />
+              </svg>
+            </div>
+            <h2 className="text-2xl font-bold text-white">Layout Library</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-white hover:bg-slate-800 p-2 rounded-lg transition-all"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="overflow-y-auto p-6 space-y-4 custom-scrollbar">
+          <div className="flex flex-wrap items-center gap-3">
+            <form onSubmit={handleSave} className="flex items-center gap-2 flex-1 min-w-[16rem]">
+              <input
+                type="text"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                placeholder="Name for the current board"
+                className="flex-1 bg-slate-800 text-slate-200 px-3 py-2 rounded-lg border border-slate-700 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+              <button
+                type="submit"
+                disabled={!newName.trim()}
+                className="px-4 py-2 text-sm font-bold text-white bg-indigo-600 rounded-lg hover:bg-indigo-500 disabled:opacity-50 transition-all"
+              >
+                Save
+              </button>
+            </form>
+            <button onClick={handleExport} disabled={layouts.length === 0} className={buttonClassName}>Export JSON</button>
+            <button onClick={() => fileInputRef.current?.click()} className={buttonClassName}>Import JSON</button>
+            <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+          </div>
+
+          {message && (
+            <div className={`text-sm p-3 rounded-xl border ${message.isError ? 'bg-rose-900/20 border-rose-700/50 text-rose-300' : 'bg-emerald-900/20 border-emerald-700/50 text-emerald-300'}`}>
+              {message.text}
+            </div>
+          )}
+
+          {layouts.length === 0 ? (
+            <p className="text-center text-slate-500 text-sm py-8">No saved layouts yet. Save the current board to start a library.</p>
+          ) : (
+            <ul className="divide-y divide-slate-700 bg-slate-800/40 rounded-xl border border-slate-700/50">
+              {layouts.map(layout => (
+                <li key={layout.id} className="flex items-center gap-3 px-4 py-3">
+                  <div className="flex-1 min-w-0">
+                    {renamingId === layout.id ? (
+                      <input
+                        autoFocus
+                        value={renameValue}
+                        onChange={(e) => setRenameValue(e.target.value)}
+                        onBlur={() => commitRename(layout.id)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') commitRename(layout.id);
+                          if (e.key === 'Escape') setRenamingId(null);
+                        }}
+                        className="w-full bg-slate-900 text-slate-200 px-2 py-1 rounded border border-indigo-500 text-sm focus:outline-none"
+                      />
+                    ) : (
+                      <p className="font-medium text-indigo-300 truncate">{layout.name}</p>
+                    )}
+                    <p className="text-xs text-slate-500 font-mono">
+                      {layout.rows}×{layout.cols} · {layout.walls.length} walls · {layout.terrain.length} terrain · {new Date(layout.savedAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <button onClick={() => handleLoad(layout)} className={buttonClassName}>Load</button>
+                  <button
+                    onClick={() => {
+                      setRenamingId(layout.id);
+                      setRenameValue(layout.name);
+                    }}
+                    className={buttonClassName}
+                  >
+                    Rename
+                  </button>
+                  <button onClick={() => handleDelete(layout)} className={`${buttonClassName} hover:text-rose-300`}>Delete</button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LayoutLibrary;
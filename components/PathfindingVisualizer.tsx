@@ -1,51 +1,203 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { flushSync } from 'react-dom';
 import Node from './Node';
 import InfoModal from './InfoModal';
-import { dijkstra } from '../algorithms/dijkstra';
-import { astar } from '../algorithms/astar';
-import { greedyBfs } from '../algorithms/greedyBfs';
-import { bidirectionalSwarm } from '../algorithms/bidirectionalSwarm';
-import { bmssp } from '../algorithms/bmssp';
-import { generateRandomMaze } from '../algorithms/mazeGenerator';
-import { NodeData, GridStats, DraggingState, AlgorithmType, HistoryEntry } from '../types';
+import RaceModal from './RaceModal';
+import SimulationModal from './SimulationModal';
+import LayoutLibrary from './LayoutLibrary';
+import ScenarioRunner from './ScenarioRunner';
+import PlaybackBar from './PlaybackBar';
+import { generateMaze } from '../algorithms/mazeGenerator';
+import { createGridGraph, getCycleCost, getPathCost, hasNegativeCosts } from '../algorithms/gridGraph';
+import { validateSearchResult } from '../algorithms/pathValidator';
+import { getOrderCost, solveVisitingOrder } from '../algorithms/waypointOrder';
+import { createPlaybackController } from '../playback/playbackController';
+import { applyBrush, getBrushCells, getFloodFillCells, getLineCells, getRectangleCells, paintCells } from '../drawing/drawingTools';
+import { applyLayout } from '../layouts/layoutLibrary';
+import { decodeBoardHash, encodeBoardHash } from '../layouts/boardUrl';
+import { AlgorithmRun, getRunTimeoutMs, openAlgorithmWorker, OUTSIDE_COST_MODEL_TIMEOUT_HINT } from '../workers/algorithmRunner';
+import { openReplanningSession, ReplanningSession } from '../workers/replanningSession';
+import { deserializeGrid, deserializeHighlights, deserializeIterations, fromCellIndices, serializeGrid } from '../workers/serialization';
+import { NodeData, GridStats, DraggingState, AlgorithmType, HistoryEntry, BrushType, MovementMode, AnimationFrame, GridSize, MazeType, PriorityQueueType, GridLayout, BoardSnapshot, CellPaint, DrawingTool, GridPosition, SearchLeg, BoardMarkers, WaypointRoute, SearchHighlightKind, NegativeCycleSummary, IterativeDeepeningSummary, IncrementalAlgorithmType, RepairedSearch, ReplanSummary, SerializedCellEdit } from '../types';
 import {
-  GRID_ROWS,
-  GRID_COLS,
+  DEFAULT_GRID_ROWS,
+  DEFAULT_GRID_COLS,
+  MIN_GRID_DIMENSION,
+  MAX_GRID_DIMENSION,
+  GRID_SIZE_PRESETS,
+  GRID_TARGET_WIDTH_PX,
+  MAX_CELL_SIZE_PX,
+  MIN_CELL_SIZE_PX,
   DEFAULT_START_ROW,
   DEFAULT_START_COL,
   DEFAULT_FINISH_ROW,
   DEFAULT_FINISH_COL,
   ANIMATION_SPEED_MS,
-  SHORTEST_PATH_SPEED_MS
+  SHORTEST_PATH_SPEED_MS,
+  MAZE_ANIMATION_SPEED_MS,
+  ITERATION_PAUSE_MS,
+  ALGORITHM_TIMEOUT_OPTIONS_MS,
+  DEFAULT_ALGORITHM_TIMEOUT_MS,
+  UNDO_HISTORY_LIMIT,
+  BRUSH_RADII,
+  DRAWING_TOOLS,
+  LEG_SHADE_COUNT,
+  ALGORITHM_OPTIONS,
+  MULTI_ENDPOINT_ALGORITHM_TYPES,
+  isMultiEndpointAlgorithm,
+  INCREMENTAL_ALGORITHM_TYPES,
+  HELD_KARP_MAX_WAYPOINTS,
+  DEFAULT_NODE_WEIGHT,
+  TERRAINS,
+  getAlgorithmLabel,
+  handlesNegativeCosts
 } from '../constants';
 
+// Visited/path classes for a waypoint leg; the first shade is the plain single-leg look
+const getLegClassNames = (legIndex: number) => {
+  const shade = legIndex % LEG_SHADE_COUNT;
+  return shade === 0
+    ? { visited: 'node-visited', path: 'node-shortest-path' }
+    : { visited: `node-visited-leg-${shade}`, path: `node-shortest-path-leg-${shade}` };
+};
+
+// Algorithm-specific highlights share one look across legs
+const HIGHLIGHT_CLASS_NAMES: Record<SearchHighlightKind, string> = {
+  jumpPoint: 'node-jump-point',
+  prunedNeighbor: 'node-pruned',
+};
+
+// Drawn in place of the path when a search stops at a negative cycle
+const NEGATIVE_CYCLE_CLASS_NAME = 'node-negative-cycle';
+
+// Iterative deepening: a cell expanded again, in a later iteration or by another route in the same one
+const REEXPANDED_CLASS_NAME = 'node-reexpanded';
+
+// Cells an LPA* / D* Lite repair expanded after an edit
+const REPAIRED_CLASS_NAME = 'node-repaired';
+
+const SEARCH_CLASS_NAMES = [
+  ...Array.from({ length: LEG_SHADE_COUNT }, (_, i) => Object.values(getLegClassNames(i))).flat(),
+  ...Object.values(HIGHLIGHT_CLASS_NAMES),
+  NEGATIVE_CYCLE_CLASS_NAME,
+  REEXPANDED_CLASS_NAME,
+  REPAIRED_CLASS_NAME,
+];
+
+const NO_MARKERS: BoardMarkers = { waypoints: [], extraStarts: [], extraFinishes: [] };
+
+// The marker list each placement tool adds to
+const MARKER_TOOL_LISTS: Partial<Record<DrawingTool, keyof BoardMarkers>> = {
+  waypoint: 'waypoints',
+  extraStart: 'extraStarts',
+  extraFinish: 'extraFinishes',
+};
+
+const isMarkerNode = (node: NodeData) => node.isStart || node.isFinish || node.waypointNumber !== null;
+
+const isEndpointTool = (tool: DrawingTool) => tool === 'extraStart' || tool === 'extraFinish';
+
+const MULTI_ENDPOINT_LABELS = MULTI_ENDPOINT_ALGORITHM_TYPES.map(getAlgorithmLabel);
+const EXTRA_ENDPOINTS_HINT = `Extra starts and finishes work with ${MULTI_ENDPOINT_LABELS.slice(0, -1).join(', ')} and ${MULTI_ENDPOINT_LABELS[MULTI_ENDPOINT_LABELS.length - 1]}`;
+
+const isIterativeDeepening = (algorithm: AlgorithmType) => algorithm === 'idaStar' || algorithm === 'iddfs';
+
+const isIncremental = (algorithm: AlgorithmType): algorithm is IncrementalAlgorithmType =>
+  INCREMENTAL_ALGORITHM_TYPES.some(type => type === algorithm);
+
+// An LPA* / D* Lite search kept alive after its run, with the board and settings it searched
+interface Replanning {
+  session: ReplanningSession;
+  grid: NodeData[][];
+  start: GridPosition;
+  finish: GridPosition;
+  markers: BoardMarkers;
+  algorithm: IncrementalAlgorithmType;
+  movement: MovementMode;
+  queueType: PriorityQueueType;
+  // Everything the run and its repairs have drawn, which the next repair animates on top of
+  shown: RepairedSearch;
+  repairCount: number;
+}
+
 const PathfindingVisualizer: React.FC = () => {
   const [grid, setGrid] = useState<NodeData[][]>([]);
+  const [gridSize, setGridSize] = useState<GridSize>({ rows: DEFAULT_GRID_ROWS, cols: DEFAULT_GRID_COLS });
+  const [customSize, setCustomSize] = useState<GridSize>({ rows: DEFAULT_GRID_ROWS, cols: DEFAULT_GRID_COLS });
+  const [showCustomSize, setShowCustomSize] = useState(false);
   const [isVisualizing, setIsVisualizing] = useState(false);
   const [stats, setStats] = useState<GridStats | null>(null);
   const [selectedAlgorithm, setSelectedAlgorithm] = useState<AlgorithmType>('dijkstra');
+  const [selectedBrush, setSelectedBrush] = useState<BrushType>('wall');
+  const [selectedTool, setSelectedTool] = useState<DrawingTool>('draw');
+  const [brushRadius, setBrushRadius] = useState(0);
+  const [movementMode, setMovementMode] = useState<MovementMode>('fourWay');
+  const [queueType, setQueueType] = useState<PriorityQueueType>('binaryHeap');
+  const [selectedMaze, setSelectedMaze] = useState<MazeType>('recursiveDivision');
+  const [animateMaze, setAnimateMaze] = useState(true);
+  const [isBuildingMaze, setIsBuildingMaze] = useState(false);
+  const [algorithmTimeoutMs, setAlgorithmTimeoutMs] = useState(DEFAULT_ALGORITHM_TIMEOUT_MS);
+  const [isComputing, setIsComputing] = useState(false);
+  const [runError, setRunError] = useState<string | null>(null);
   const [startNodePos, setStartNodePos] = useState({ row: DEFAULT_START_ROW, col: DEFAULT_START_COL });
   const [finishNodePos, setFinishNodePos] = useState({ row: DEFAULT_FINISH_ROW, col: DEFAULT_FINISH_COL });
+  const [markers, setMarkers] = useState<BoardMarkers>(NO_MARKERS);
+  // Visit the waypoints in the cheapest order instead of their numbered order
+  const [visitWaypointsInAnyOrder, setVisitWaypointsInAnyOrder] = useState(false);
   const [history, setHistory] = useState<HistoryEntry[]>([]);
   const [showInfo, setShowInfo] = useState(false);
+  const [showRace, setShowRace] = useState(false);
+  const [showSimulation, setShowSimulation] = useState(false);
+  const [showLayouts, setShowLayouts] = useState(false);
+  const [showScenarios, setShowScenarios] = useState(false);
+  const [linkCopied, setLinkCopied] = useState(false);
   const [expandedImage, setExpandedImage] = useState<string | null>(null);
   
   // Refs for live updates to avoid re-renders during animation
   const visitedCountRef = useRef<HTMLSpanElement>(null);
   const pathCountRef = useRef<HTMLSpanElement>(null);
+  const reexpansionCountRef = useRef<HTMLSpanElement>(null);
+  const iterationLabelRef = useRef<HTMLSpanElement>(null);
   const timeValueRef = useRef<HTMLSpanElement>(null);
   const timeUnitRef = useRef<HTMLSpanElement>(null);
   const stopwatchRef = useRef<number>(0);
   const startTimeRef = useRef<number>(0);
+
+  // Drives the search animation; lives outside React state so frames don't re-render the grid
+  const [playback] = useState(createPlaybackController);
+
+  // Worker run in flight (for Cancel) and its live progress readout
+  const activeRunRef = useRef<AlgorithmRun | null>(null);
+  const progressBarRef = useRef<HTMLDivElement>(null);
+  const progressTextRef = useRef<HTMLSpanElement>(null);
+  // Painting cells on the board this search ran on repairs it; any other change ends it
+  const replanningRef = useRef<Replanning | null>(null);
   
   // Interaction State
   const [isMousePressed, setIsMousePressed] = useState(false);
   const [draggingState, setDraggingState] = useState<DraggingState>(null);
 
-  // Initialize grid and load history
+  // Undo/redo over board edits. A drag stroke is recorded once, from the board as it was on mouse down.
+  const [undoStack, setUndoStack] = useState<BoardSnapshot[]>([]);
+  const [redoStack, setRedoStack] = useState<BoardSnapshot[]>([]);
+  const strokeSnapshotRef = useRef<{ snapshot: BoardSnapshot; grid: NodeData[][] } | null>(null);
+
+  // Drawing tool state for the stroke or shape in progress
+  const paintStrokeRef = useRef<{ paint: CellPaint; last: GridPosition } | null>(null);
+  const shapeRef = useRef<{ anchor: GridPosition; cells: GridPosition[] } | null>(null);
+  // The waypoint or extra start/finish being dragged
+  const draggedMarkerRef = useRef<{ list: keyof BoardMarkers; index: number } | null>(null);
+
+  // Initialize grid (from a shared link if the URL has one) and load history
   useEffect(() => {
-    const initialGrid = getInitialGrid(startNodePos, finishNodePos);
-    setGrid(initialGrid);
+    const sharedBoard = decodeBoardHash(window.location.hash);
+    if (sharedBoard) {
+      applyLayoutToBoard(sharedBoard.layout, sharedBoard.markers);
+      setSelectedAlgorithm(sharedBoard.algorithm);
+    } else {
+      const initialGrid = getInitialGrid(startNodePos, finishNodePos);
+      setGrid(initialGrid);
+    }
 
     const savedHistory = localStorage.getItem('pathfinder_history');
     if (savedHistory) {
@@ -55,17 +207,24 @@ const PathfindingVisualizer: React.FC = () => {
         console.error("Failed to parse history", e);
       }
     }
+
+    return () => {
+      playback.pause();
+      activeRunRef.current?.cancel();
+      replanningRef.current?.session.close();
+    };
   }, []); // eslint-disable-line react-hooks/exhaustive-deps
 
   // Helper to create the grid
   const getInitialGrid = (
     startPos: { row: number; col: number },
-    finishPos: { row: number; col: number }
+    finishPos: { row: number; col: number },
+    size: GridSize = gridSize
   ): NodeData[][] => {
     const newGrid = [];
-    for (let row = 0; row < GRID_ROWS; row++) {
+    for (let row = 0; row < size.rows; row++) {
       const currentRow = [];
-      for (let col = 0; col < GRID_COLS; col++) {
+      for (let col = 0; col < size.cols; col++) {
         currentRow.push(createNode(col, row, startPos, finishPos));
       }
       newGrid.push(currentRow);
@@ -84,11 +243,13 @@ const PathfindingVisualizer: React.FC = () => {
       row,
       isStart: row === startPos.row && col === startPos.col,
       isFinish: row === finishPos.row && col === finishPos.col,
+      waypointNumber: null,
       distance: Infinity,
       totalDistance: Infinity,
       heuristicDistance: Infinity,
       isVisited: false,
       isWall: false,
+      weight: DEFAULT_NODE_WEIGHT,
       previousNode: null,
     };
   };
@@ -100,9 +261,10 @@ const PathfindingVisualizer: React.FC = () => {
     pathNodes: NodeData[]
   ): string => {
     const canvas = document.createElement('canvas');
-    const scale = 4; // Scale down factor to keep image size reasonable
-    canvas.width = GRID_COLS * scale;
-    canvas.height = GRID_ROWS * scale;
+    // Scale down factor to keep image size reasonable (about 200px on the longer side)
+    const scale = Math.max(1, Math.floor(200 / Math.max(gridSize.rows, gridSize.cols)));
+    canvas.width = gridSize.cols * scale;
+    canvas.height = gridSize.rows * scale;
     const ctx = canvas.getContext('2d');
     
     if (!ctx) return '';
@@ -117,6 +279,16 @@ const PathfindingVisualizer: React.FC = () => {
       if (node.isWall) ctx.fillRect(node.col * scale, node.row * scale, scale, scale);
     }));
 
+    // Draw Weighted Terrain
+    Object.values(TERRAINS).forEach(terrain => {
+      ctx.fillStyle = terrain.snapshotColor;
+      currentGrid.forEach(row => row.forEach(node => {
+        if (!node.isWall && node.weight === terrain.weight) {
+          ctx.fillRect(node.col * scale, node.row * scale, scale, scale);
+        }
+      }));
+    });
+
     // Draw Visited
     ctx.fillStyle = 'rgba(99, 102, 241, 0.6)'; // indigo-500
     visitedNodes.forEach(node => {
@@ -160,90 +332,236 @@ const PathfindingVisualizer: React.FC = () => {
     return `${timeString}.${ms}`;
   };
 
+  // Drawing helpers
+  const getBrushPaint = (): CellPaint =>
+    selectedBrush === 'wall'
+      ? { isWall: true, weight: DEFAULT_NODE_WEIGHT }
+      : { isWall: false, weight: TERRAINS[selectedBrush].weight };
+
+  const erasePaint: CellPaint = { isWall: false, weight: DEFAULT_NODE_WEIGHT };
+
+  const hasPaint = (node: NodeData, paint: CellPaint) => node.isWall === paint.isWall && node.weight === paint.weight;
+
+  const getShapeCells = (from: GridPosition, to: GridPosition): GridPosition[] => {
+    switch (selectedTool) {
+      case 'line': return applyBrush(getLineCells(from, to), brushRadius, gridSize.rows, gridSize.cols);
+      case 'rectangle': return getRectangleCells(from, to, true);
+      case 'hollowRectangle': return applyBrush(getRectangleCells(from, to, false), brushRadius, gridSize.rows, gridSize.cols);
+      default: return [];
+    }
+  };
+
+  // Line/rectangle previews are classes on the cells, so dragging a shape never re-renders the grid
+  const updateShapePreview = (to: GridPosition | null) => {
+    const shape = shapeRef.current;
+    if (!shape) return;
+    shape.cells.forEach(cell => document.getElementById(`node-${cell.row}-${cell.col}`)?.classList.remove('node-preview'));
+    shape.cells = to ? getShapeCells(shape.anchor, to) : [];
+    shape.cells.forEach(cell => document.getElementById(`node-${cell.row}-${cell.col}`)?.classList.add('node-preview'));
+  };
+
   // Handle Mouse Interactions
   const handleMouseDown = (row: number, col: number) => {
     if (isVisualizing) return;
 
     setIsMousePressed(true);
+    strokeSnapshotRef.current = { snapshot: takeSnapshot(), grid };
     const node = grid[row][col];
+    const cell = { row, col };
+    const brushPaint = getBrushPaint();
 
-    if (node.isStart) {
+    const isAt = (pos: GridPosition) => pos.row === row && pos.col === col;
+
+    if (isAt(startNodePos)) {
       setDraggingState('start');
-    } else if (node.isFinish) {
+    } else if (isAt(finishNodePos)) {
       setDraggingState('finish');
-    } else {
-      // Toggle Wall
-      setDraggingState('wall');
-      const newGrid = toggleWall(grid, row, col);
+    } else if (MARKER_TOOL_LISTS[selectedTool]) {
+      // Clicking a marker of the tool's kind removes it (later waypoints move up a number); clicking a free cell adds one
+      const list = MARKER_TOOL_LISTS[selectedTool]!;
+      const index = markers[list].findIndex(isAt);
+      if (index === -1 && isMarkerNode(node)) return;
+      const newMarkers = {
+        ...markers,
+        [list]: index === -1 ? [...markers[list], cell] : markers[list].filter((_, i) => i !== index),
+      };
+      setMarkers(newMarkers);
+      const newGrid = updateNodePositions(grid, startNodePos, finishNodePos, newMarkers);
+      if (node.isWall) newGrid[row] = newGrid[row].map(n => n.col === col ? { ...n, isWall: false } : n);
       setGrid(newGrid);
+    } else if (isMarkerNode(node)) {
+      const list = (Object.keys(markers) as (keyof BoardMarkers)[]).find(key => markers[key].some(isAt))!;
+      draggedMarkerRef.current = { list, index: markers[list].findIndex(isAt) };
+      setDraggingState('marker');
+    } else if (selectedTool === 'fill') {
+      // Filling a region with what it already holds clears it instead, as clicking a wall removes it
+      const paint = hasPaint(node, brushPaint) ? erasePaint : brushPaint;
+      setGrid(paintCells(grid, getFloodFillCells(grid, cell), paint));
+    } else if (selectedTool === 'draw' || selectedTool === 'erase') {
+      // The first cell fixes what the whole stroke paints, so passing over a cell twice never flips it back
+      const paint = selectedTool === 'erase' || hasPaint(node, brushPaint) ? erasePaint : brushPaint;
+      paintStrokeRef.current = { paint, last: cell };
+      setDraggingState('paint');
+      setGrid(prev => paintCells(prev, getBrushCells(cell, brushRadius, gridSize.rows, gridSize.cols), paint));
+    } else {
+      shapeRef.current = { anchor: cell, cells: [] };
+      setDraggingState('shape');
+      updateShapePreview(cell);
     }
   };
 
   const handleMouseEnter = (row: number, col: number) => {
     if (!isMousePressed || isVisualizing) return;
 
+    const node = grid[row][col];
     if (draggingState === 'start') {
-       if (row === finishNodePos.row && col === finishNodePos.col) return;
+       if (isMarkerNode(node)) return;
        const newStartPos = { row, col };
        setStartNodePos(newStartPos);
        setGrid(updateNodePositions(grid, newStartPos, finishNodePos));
     } else if (draggingState === 'finish') {
-       if (row === startNodePos.row && col === startNodePos.col) return;
+       if (isMarkerNode(node)) return;
        const newFinishPos = { row, col };
        setFinishNodePos(newFinishPos);
        setGrid(updateNodePositions(grid, startNodePos, newFinishPos));
-    } else if (draggingState === 'wall') {
-       const node = grid[row][col];
-       if (node.isStart || node.isFinish) return;
-       const newGrid = toggleWall(grid, row, col);
+    } else if (draggingState === 'marker' && draggedMarkerRef.current) {
+       if (isMarkerNode(node)) return;
+       const { list, index } = draggedMarkerRef.current;
+       const newMarkers = { ...markers, [list]: markers[list].map((pos, i) => i === index ? { row, col } : pos) };
+       setMarkers(newMarkers);
+       const newGrid = updateNodePositions(grid, startNodePos, finishNodePos, newMarkers);
+       if (node.isWall) newGrid[row] = newGrid[row].map(n => n.col === col ? { ...n, isWall: false } : n);
        setGrid(newGrid);
+    } else if (draggingState === 'paint' && paintStrokeRef.current) {
+       const stroke = paintStrokeRef.current;
+       // Paint the segment from the previous cell too, so fast drags leave no gaps
+       const cells = applyBrush(getLineCells(stroke.last, { row, col }), brushRadius, gridSize.rows, gridSize.cols);
+       stroke.last = { row, col };
+       setGrid(prev => paintCells(prev, cells, stroke.paint));
+    } else if (draggingState === 'shape') {
+       updateShapePreview({ row, col });
     }
   };
 
   const handleMouseUp = () => {
+    let finalGrid = grid;
+    if (shapeRef.current) {
+      const cells = shapeRef.current.cells;
+      updateShapePreview(null);
+      shapeRef.current = null;
+      finalGrid = paintCells(grid, cells, getBrushPaint());
+      setGrid(finalGrid);
+    }
+    paintStrokeRef.current = null;
     setIsMousePressed(false);
     setDraggingState(null);
+    // Every edit replaces the grid array, so an unchanged reference means the stroke did nothing
+    const stroke = strokeSnapshotRef.current;
+    strokeSnapshotRef.current = null;
+    if (stroke && stroke.grid !== finalGrid) {
+      recordEdit(stroke.snapshot);
+      repairAfterEdit(stroke.grid, finalGrid);
+    }
+  };
+
+  // Undo/Redo helpers
+  const takeSnapshot = (): BoardSnapshot => ({
+    grid: serializeGrid(grid),
+    start: startNodePos,
+    finish: finishNodePos,
+    markers,
+  });
+
+  // Call before an edit with the board as it was; a new edit invalidates the redo stack
+  const recordEdit = (snapshot: BoardSnapshot = takeSnapshot()) => {
+    setUndoStack(prev => [...prev.slice(-(UNDO_HISTORY_LIMIT - 1)), snapshot]);
+    setRedoStack([]);
   };
 
+  const restoreSnapshot = (snapshot: BoardSnapshot) => {
+    const size = { rows: snapshot.grid.rows, cols: snapshot.grid.cols };
+    closeReplanning();
+    playback.clear();
+    setStats(null);
+    setRunError(null);
+    resetCounters();
+    setGridSize(size);
+    setCustomSize(size);
+    setStartNodePos(snapshot.start);
+    setFinishNodePos(snapshot.finish);
+    setMarkers(snapshot.markers);
+    setGrid(updateNodePositions(deserializeGrid(snapshot.grid), snapshot.start, snapshot.finish, snapshot.markers));
+  };
+
+  const undo = () => {
+    if (isVisualizing || undoStack.length === 0) return;
+    const previous = undoStack[undoStack.length - 1];
+    setRedoStack(prev => [...prev, takeSnapshot()]);
+    setUndoStack(prev => prev.slice(0, -1));
+    restoreSnapshot(previous);
+  };
+
+  const redo = () => {
+    if (isVisualizing || redoStack.length === 0) return;
+    const next = redoStack[redoStack.length - 1];
+    setUndoStack(prev => [...prev, takeSnapshot()]);
+    setRedoStack(prev => prev.slice(0, -1));
+    restoreSnapshot(next);
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS); typing in a form field keeps the browser's own undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT') return;
+      e.preventDefault();
+      if (e.shiftKey) redo();
+      else undo();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
   // Update Grid helpers
   const updateNodePositions = (
     currentGrid: NodeData[][],
     startPos: { row: number; col: number },
-    finishPos: { row: number; col: number }
+    finishPos: { row: number; col: number },
+    boardMarkers: BoardMarkers = markers
   ) => {
     const newGrid = currentGrid.slice();
-    for (let row = 0; row < GRID_ROWS; row++) {
-      for (let col = 0; col < GRID_COLS; col++) {
+    const key = (pos: GridPosition) => `${pos.row}-${pos.col}`;
+    const waypointNumbers = new Map(boardMarkers.waypoints.map((pos, i) => [key(pos), i + 1]));
+    const extraStarts = new Set(boardMarkers.extraStarts.map(key));
+    const extraFinishes = new Set(boardMarkers.extraFinishes.map(key));
+    // Sized from the grid itself, so a freshly built grid of a new size can be passed in before gridSize updates
+    for (let row = 0; row < newGrid.length; row++) {
+      for (let col = 0; col < newGrid[row].length; col++) {
         const node = newGrid[row][col];
-        const isStart = row === startPos.row && col === startPos.col;
-        const isFinish = row === finishPos.row && col === finishPos.col;
+        const cellKey = `${row}-${col}`;
+        const isStart = (row === startPos.row && col === startPos.col) || extraStarts.has(cellKey);
+        const isFinish = (row === finishPos.row && col === finishPos.col) || extraFinishes.has(cellKey);
+        const waypointNumber = waypointNumbers.get(cellKey) ?? null;
         
-        if (node.isStart !== isStart || node.isFinish !== isFinish) {
-           newGrid[row][col] = { ...node, isStart, isFinish };
+        if (node.isStart !== isStart || node.isFinish !== isFinish || node.waypointNumber !== waypointNumber) {
+           newGrid[row][col] = { ...node, isStart, isFinish, waypointNumber };
         }
       }
     }
     return newGrid;
   };
 
-  const toggleWall = (currentGrid: NodeData[][], row: number, col: number) => {
-    const newGrid = currentGrid.slice();
-    const node = newGrid[row][col];
-    newGrid[row][col] = {
-      ...node,
-      isWall: !node.isWall,
-    };
-    return newGrid;
-  };
-
   // Visualization Logic
   const resetVisuals = () => {
+    closeReplanning();
+    playback.clear();
     // Clear DOM classes
-    for (let row = 0; row < GRID_ROWS; row++) {
-      for (let col = 0; col < GRID_COLS; col++) {
+    for (let row = 0; row < gridSize.rows; row++) {
+      for (let col = 0; col < gridSize.cols; col++) {
         const node = document.getElementById(`node-${row}-${col}`);
         if (node) {
-          node.classList.remove('node-visited', 'node-shortest-path');
+          node.classList.remove(...SEARCH_CLASS_NAMES);
         }
       }
     }
@@ -262,18 +580,127 @@ const PathfindingVisualizer: React.FC = () => {
     return freshGrid;
   };
 
+  const clampPosition = (pos: { row: number; col: number }, size: GridSize) => ({
+    row: Math.min(Math.max(pos.row, 0), size.rows - 1),
+    col: Math.min(Math.max(pos.col, 0), size.cols - 1),
+  });
+
+  const resizeGrid = (size: GridSize) => {
+    if (isVisualizing) return;
+    const clampDimension = (value: number) =>
+      Math.min(Math.max(Math.floor(value) || MIN_GRID_DIMENSION, MIN_GRID_DIMENSION), MAX_GRID_DIMENSION);
+    const newSize = { rows: clampDimension(size.rows), cols: clampDimension(size.cols) };
+    recordEdit();
+
+    const newStartPos = clampPosition(startNodePos, newSize);
+    let newFinishPos = clampPosition(finishNodePos, newSize);
+    // Clamping can land both on the same cell; nudge the finish to a neighbouring column
+    if (newStartPos.row === newFinishPos.row && newStartPos.col === newFinishPos.col) {
+      newFinishPos = { row: newFinishPos.row, col: newFinishPos.col > 0 ? newFinishPos.col - 1 : newFinishPos.col + 1 };
+    }
+
+    closeReplanning();
+    playback.clear();
+    setStats(null);
+    resetCounters();
+    setGridSize(newSize);
+    setCustomSize(newSize);
+    setStartNodePos(newStartPos);
+    setFinishNodePos(newFinishPos);
+    setMarkers(NO_MARKERS);
+    setGrid(getInitialGrid(newStartPos, newFinishPos, newSize));
+  };
+
+  const loadLayout = (layout: GridLayout) => {
+    if (isVisualizing) return;
+    recordEdit();
+    applyLayoutToBoard(layout);
+  };
+
+  // Loading a layout is a full board reset at the layout's size, like resizeGrid
+  const applyLayoutToBoard = (layout: GridLayout, layoutMarkers: BoardMarkers = NO_MARKERS) => {
+    const size = { rows: layout.rows, cols: layout.cols };
+    playback.clear();
+    setStats(null);
+    setRunError(null);
+    resetCounters();
+    setShowCustomSize(false);
+    setGridSize(size);
+    setCustomSize(size);
+    setStartNodePos(layout.start);
+    setFinishNodePos(layout.finish);
+    setMarkers(layoutMarkers);
+    const layoutGrid = applyLayout(layout, getInitialGrid(layout.start, layout.finish, size));
+    setGrid(updateNodePositions(layoutGrid, layout.start, layout.finish, layoutMarkers));
+  };
+
+  const copyShareLink = async () => {
+    const hash = encodeBoardHash(grid, startNodePos, finishNodePos, markers, selectedAlgorithm);
+    window.history.replaceState(null, '', `#${hash}`);
+    const link = window.location.href;
+    try {
+      await navigator.clipboard.writeText(link);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch {
+      // Clipboard access can be denied (e.g. insecure origins); let the user copy it by hand
+      window.prompt('Copy this link to share the board:', link);
+    }
+  };
+
+  const handleGridSizeChange = (value: string) => {
+    if (value === 'custom') {
+      setShowCustomSize(true);
+      return;
+    }
+    setShowCustomSize(false);
+    const [rows, cols] = value.split('x').map(Number);
+    resizeGrid({ rows, cols });
+  };
+
   const handleGenerateMaze = () => {
     if (isVisualizing) return;
-    resetVisuals();
-    const newGrid = generateRandomMaze(grid);
-    setGrid(newGrid);
+    recordEdit();
+    const freshGrid = resetVisuals();
+    const { grid: mazeGrid, steps } = generateMaze(grid, selectedMaze, startNodePos, finishNodePos);
     setStats(null);
     resetCounters();
+
+    if (!animateMaze) {
+      setGrid(mazeGrid);
+      return;
+    }
+
+    // Build the maze on an empty board, one recorded wall placement/removal per frame
+    setGrid(freshGrid.map(row => row.map(node => ({ ...node, isWall: false, weight: DEFAULT_NODE_WEIGHT }))));
+    setIsVisualizing(true);
+    setIsBuildingMaze(true);
+
+    const frames: AnimationFrame[] = steps.map(step => ({
+      row: step.row,
+      col: step.col,
+      className: 'node-maze-wall',
+      delayMs: step.instant ? 0 : MAZE_ANIMATION_SPEED_MS,
+      action: step.isWall ? 'add' : 'remove',
+    }));
+
+    playback.load(frames, {
+      onEnd: () => {
+        // Commit the real walls before dropping the animation classes so the board never flickers empty
+        flushSync(() => setGrid(mazeGrid));
+        playback.clear();
+        setIsBuildingMaze(false);
+        setIsVisualizing(false);
+      },
+    });
+    playback.play();
   };
 
   const resetCounters = () => {
     if (visitedCountRef.current) visitedCountRef.current.innerText = "0";
     if (pathCountRef.current) pathCountRef.current.innerText = "0";
+    if (reexpansionCountRef.current) reexpansionCountRef.current.innerText = "0";
+    if (iterationLabelRef.current) iterationLabelRef.current.innerText = "";
     if (timeValueRef.current) timeValueRef.current.innerText = "0.00";
     if (timeUnitRef.current) timeUnitRef.current.innerText = " s";
   };
@@ -298,10 +725,11 @@ const PathfindingVisualizer: React.FC = () => {
     stopwatchRef.current = requestAnimationFrame(updateStopwatch);
   };
 
-  const runAlgorithm = () => {
+  const runAlgorithm = async () => {
     if (isVisualizing) return;
     setIsVisualizing(true);
     setStats(null);
+    setRunError(null);
 
     // Reset counters in DOM
     resetCounters();
@@ -312,185 +740,505 @@ const PathfindingVisualizer: React.FC = () => {
     stopwatchRef.current = requestAnimationFrame(updateStopwatch);
 
     const cleanGrid = resetVisuals();
-    
-    const startNode = cleanGrid[startNodePos.row][startNodePos.col];
-    const finishNode = cleanGrid[finishNodePos.row][finishNodePos.col];
+    const graph = createGridGraph(cleanGrid, movementMode);
+    const serializedGrid = serializeGrid(cleanGrid);
+    const isOutsideCostModel = hasNegativeCosts(cleanGrid) && !handlesNegativeCosts(selectedAlgorithm);
+    const timeoutMs = getRunTimeoutMs(algorithmTimeoutMs, isOutsideCostModel);
 
-    // Timestamps for Algorithm Execution
-    const startTimestamp = new Date();
-    const startTimePerf = performance.now();
-    
-    let result;
-    switch (selectedAlgorithm) {
-      case 'dijkstra':
-        result = dijkstra(cleanGrid, startNode, finishNode);
-        break;
-      case 'astar':
-        result = astar(cleanGrid, startNode, finishNode);
-        break;
-      case 'greedyBfs':
-        result = greedyBfs(cleanGrid, startNode, finishNode);
-        break;
-      case 'bidirectionalSwarm':
-        result = bidirectionalSwarm(cleanGrid, startNode, finishNode);
-        break;
-      case 'bmssp':
-        result = bmssp(cleanGrid, startNode, finishNode);
-        break;
-      default:
-        result = dijkstra(cleanGrid, startNode, finishNode);
-    }
+    // Stop 0 is the start, then the waypoints, then the finish. Extra starts join the frontier of searches
+    // from the start; extra finishes let searches to the finish end at whichever is nearest.
+    const { waypoints, extraStarts, extraFinishes } = markers;
+    const stops = [startNodePos, ...waypoints, finishNodePos];
+    const finishIndex = stops.length - 1;
+    let startedAt = 0;
+    let finishedAt = 0;
+    let durationMs = 0;
+    let searchCount = 0;
+
+    // The search (and its ground-truth check) runs in a worker so large grids don't freeze the page.
+    // Every leg or waypoint pair of this run reuses the same worker.
+    setIsComputing(true);
+    const algorithmWorker = openAlgorithmWorker();
+    const totalCells = gridSize.rows * gridSize.cols;
 
-    const endTimePerf = performance.now();
-    const endTimestamp = new Date();
-    const durationSeconds = (endTimePerf - startTimePerf) / 1000; // Compute duration
-    const executionTimeMs = endTimePerf - startTimePerf;
-
-    // Verify Shortest Path (Ground Truth Calculation)
-    const verifyGrid = getInitialGrid(startNodePos, finishNodePos);
-    // Copy walls
-    for(let r=0; r<GRID_ROWS; r++){
-        for(let c=0; c<GRID_COLS; c++){
-            if(grid[r][c].isWall) verifyGrid[r][c].isWall = true;
+    // Searches between two stops; null when the run was cancelled or failed (the error is already shown)
+    const searchBetween = async (from: number, to: number, label: string): Promise<SearchLeg | null> => {
+      const legExtraStarts = from === 0 ? extraStarts : [];
+      const legExtraFinishes = to === finishIndex ? extraFinishes : [];
+      const run = algorithmWorker.run(
+        {
+          grid: serializedGrid,
+          start: stops[from],
+          finish: stops[to],
+          algorithm: selectedAlgorithm,
+          movement: movementMode,
+          queueType,
+          extraStarts: legExtraStarts,
+          extraFinishes: legExtraFinishes,
+        },
+        {
+          timeoutMs,
+          onProgress: (expandedNodes) => {
+            // Expansions can exceed the cell count (e.g. BMSSP re-relaxes), so the bar is capped short of done
+            const fraction = Math.min(0.99, expandedNodes / totalCells);
+            if (progressBarRef.current) progressBarRef.current.style.width = `${(fraction * 100).toFixed(1)}%`;
+            if (progressTextRef.current) progressTextRef.current.innerText = `${label}${expandedNodes.toLocaleString()} nodes expanded`;
+          },
         }
+      );
+      activeRunRef.current = run;
+      const outcome = await run.outcome;
+      activeRunRef.current = null;
+
+      if (outcome.status !== 'done') {
+        setIsComputing(false);
+        cancelAnimationFrame(stopwatchRef.current);
+        resetCounters();
+        setIsVisualizing(false);
+        if (outcome.status === 'timeout') {
+          const hint = isOutsideCostModel ? ` ${OUTSIDE_COST_MODEL_TIMEOUT_HINT}` : '';
+          setRunError(`${label}${getAlgorithmLabel(selectedAlgorithm)} timed out after ${timeoutMs / 1000}s.${hint}`);
+        } else if (outcome.status === 'error') {
+          setRunError(`${label}${getAlgorithmLabel(selectedAlgorithm)} failed: ${outcome.message}`);
+        }
+        return null;
+      }
+
+      const { result } = outcome;
+      const visitedNodesInOrder = fromCellIndices(result.visited, cleanGrid);
+      const nodesInShortestPathOrder = fromCellIndices(result.path, cleanGrid);
+      const optimalPath = fromCellIndices(result.optimalPath, cleanGrid);
+      const negativeCycle = fromCellIndices(result.negativeCycle, cleanGrid);
+
+      if (searchCount === 0) startedAt = result.startedAt;
+      finishedAt = result.finishedAt;
+      durationMs += result.durationMs;
+      searchCount++;
+
+      return {
+        visitedNodesInOrder,
+        nodesInShortestPathOrder,
+        highlights: deserializeHighlights(result.highlights, cleanGrid),
+        negativeCycle,
+        iterations: deserializeIterations(result.iterations, cleanGrid),
+        peakStackDepth: result.peakStackDepth,
+        gaveUpAfter: result.gaveUpAfter ?? undefined,
+        // A matching length is not enough: the path must also be contiguous, wall-free, correctly anchored and optimal in cost
+        validation: validateSearchResult(
+          graph,
+          [stops[from], ...legExtraStarts].map(pos => cleanGrid[pos.row][pos.col]),
+          [stops[to], ...legExtraFinishes].map(pos => cleanGrid[pos.row][pos.col]),
+          { visitedNodesInOrder, nodesInShortestPathOrder, negativeCycle, gaveUpAfter: result.gaveUpAfter ?? undefined },
+          optimalPath,
+          {
+            optimalNegativeCycle: fromCellIndices(result.optimalNegativeCycle, cleanGrid),
+            handlesNegativeCosts: handlesNegativeCosts(selectedAlgorithm),
+          }
+        ),
+        pathCost: getPathCost(graph, nodesInShortestPathOrder),
+      };
+    };
+
+    const legs: SearchLeg[] = [];
+    let waypointRoute: WaypointRoute | undefined;
+    try {
+      if (isUnorderedRoute) {
+        // Search every pair of stops the route could use, then pick the cheapest order from their costs
+        const pairs: [number, number][] = [];
+        for (let from = 0; from < finishIndex; from++) {
+          for (let to = 1; to <= finishIndex; to++) {
+            if (from !== to && !(from === 0 && to === finishIndex)) pairs.push([from, to]);
+          }
+        }
+        const pairLegs = new Map<string, SearchLeg>();
+        const costs = stops.map(() => stops.map(() => Infinity));
+        for (const [i, [from, to]] of pairs.entries()) {
+          const leg = await searchBetween(from, to, `Pair ${i + 1}/${pairs.length}: `);
+          if (!leg) return;
+          pairLegs.set(`${from}-${to}`, leg);
+          if (leg.nodesInShortestPathOrder.length > 0) costs[from][to] = leg.pathCost;
+        }
+
+        const best = solveVisitingOrder(costs, HELD_KARP_MAX_WAYPOINTS);
+        waypointRoute = {
+          order: best.order,
+          cost: best.cost,
+          naiveCost: getOrderCost(costs, waypoints.map((_, i) => i + 1)),
+          method: best.method,
+          searchCount: pairs.length,
+        };
+        const route = [0, ...best.order, finishIndex];
+        route.slice(1).forEach((to, i) => legs.push(pairLegs.get(`${route[i]}-${to}`)!));
+      } else {
+        // With waypoints the route is searched leg by leg: start -> 1 -> 2 -> ... -> finish
+        for (let from = 0; from < finishIndex; from++) {
+          const leg = await searchBetween(from, from + 1, finishIndex > 1 ? `Leg ${from + 1}/${finishIndex}: ` : '');
+          if (!leg) return;
+          legs.push(leg);
+        }
+      }
+    } finally {
+      algorithmWorker.close();
     }
-    const verifyStart = verifyGrid[startNodePos.row][startNodePos.col];
-    const verifyFinish = verifyGrid[finishNodePos.row][finishNodePos.col];
-    const groundTruth = dijkstra(verifyGrid, verifyStart, verifyFinish);
-    
-    const foundPathLength = result.nodesInShortestPathOrder.length;
-    const optimalPathLength = groundTruth.nodesInShortestPathOrder.length;
-    
-    // Check if lengths match (allow for 0 if both failed)
-    const isOptimal = foundPathLength === optimalPathLength || (foundPathLength === 0 && optimalPathLength === 0);
+    setIsComputing(false);
+
+    // Incremental searches stay alive so later wall edits are repaired rather than searched again
+    if (isIncremental(selectedAlgorithm) && stops.length === 2 && !isOutsideCostModel) {
+      replanningRef.current = {
+        session: openReplanningSession({
+          grid: serializedGrid,
+          start: startNodePos,
+          finish: finishNodePos,
+          algorithm: selectedAlgorithm,
+          movement: movementMode,
+          queueType,
+        }),
+        grid: cleanGrid,
+        start: startNodePos,
+        finish: finishNodePos,
+        markers,
+        algorithm: selectedAlgorithm,
+        movement: movementMode,
+        queueType,
+        shown: { visitedNodes: legs[0].visitedNodesInOrder, repairedNodes: [] },
+        repairCount: 0,
+      };
+    }
+
+    // A failing leg names itself, since the stats only show the first problem
+    const labelledLegs = legs.map((leg, i) => leg.validation.isValid || legs.length === 1
+      ? leg
+      : { ...leg, validation: { ...leg.validation, reason: `Leg ${i + 1}/${legs.length}: ${leg.validation.reason}` } });
+
+    const cycleLeg = legs.find(leg => leg.negativeCycle && leg.negativeCycle.length > 0);
+    const negativeCycle: NegativeCycleSummary | undefined = cycleLeg?.negativeCycle && {
+      length: cycleLeg.negativeCycle.length,
+      cost: getCycleCost(graph, cycleLeg.negativeCycle),
+    };
+
+    // Every expansion past a leg's first visit to a cell is a re-expansion
+    const iterativeLegs = legs.filter(leg => leg.iterations && leg.iterations.length > 0);
+    const iterativeDeepening: IterativeDeepeningSummary | undefined = iterativeLegs.length > 0 ? {
+      iterationCount: iterativeLegs.reduce((sum, leg) => sum + leg.iterations!.length, 0),
+      reexpansions: iterativeLegs.reduce((sum, leg) =>
+        sum + leg.iterations!.reduce((expansions, iteration) => expansions + iteration.expandedNodes.length, 0) - leg.visitedNodesInOrder.length, 0),
+      peakStackDepth: Math.max(...iterativeLegs.map(leg => leg.peakStackDepth ?? 0)),
+    } : undefined;
+
+    // Timestamps for Algorithm Execution
+    const startTimestamp = new Date(startedAt);
+    const endTimestamp = new Date(finishedAt);
+    const durationSeconds = durationMs / 1000; // Compute duration
 
     // Generate Snapshot
-    const snapshot = generateSnapshot(grid, result.visitedNodesInOrder, result.nodesInShortestPathOrder);
+    const snapshot = generateSnapshot(
+      grid,
+      legs.flatMap(leg => leg.visitedNodesInOrder),
+      legs.flatMap(leg => leg.nodesInShortestPathOrder)
+    );
 
-    animateAlgorithm(
-        result.visitedNodesInOrder, 
-        result.nodesInShortestPathOrder, 
-        executionTimeMs, 
+    playSearchTimeline(
+        labelledLegs,
         startTimestamp, 
         endTimestamp, 
         durationSeconds, 
-        isOptimal,
-        snapshot
+        snapshot,
+        waypointRoute,
+        negativeCycle,
+        iterativeDeepening
     );
   };
 
-  const animateAlgorithm = (
-    visitedNodesInOrder: NodeData[],
-    nodesInShortestPathOrder: NodeData[],
-    executionTimeMs: number,
-    startTimestamp: Date,
-    endTimestamp: Date,
-    durationSeconds: number,
-    shortestPathFound: boolean,
-    snapshot: string
-  ) => {
+  const closeReplanning = () => {
+    replanningRef.current?.session.close();
+    replanningRef.current = null;
+  };
+
+  // Called after every edit stroke: an LPA* / D* Lite search of the board as it was repairs itself and
+  // re-animates only what changed. Anything else about the board or settings changing ends the search instead.
+  const repairAfterEdit = async (before: NodeData[][], after: NodeData[][]) => {
+    const replanning = replanningRef.current;
+    if (!replanning) return;
+    const isSameSearch = replanning.grid === before && replanning.start === startNodePos && replanning.finish === finishNodePos &&
+      replanning.markers === markers && replanning.algorithm === selectedAlgorithm && replanning.movement === movementMode &&
+      replanning.queueType === queueType;
+    if (!isSameSearch) {
+      closeReplanning();
+      return;
+    }
+    const name = getAlgorithmLabel(replanning.algorithm);
+    if (hasNegativeCosts(after)) {
+      closeReplanning();
+      setRunError(`${name} stopped replanning: boost cells have negative costs, which it assumes never happen. Run it again to search from scratch.`);
+      return;
+    }
+
+    const edits: SerializedCellEdit[] = [];
+    before.forEach((row, rowIdx) => {
+      if (row === after[rowIdx]) return;
+      row.forEach((node, colIdx) => {
+        const edited = after[rowIdx][colIdx];
+        if (node.isWall !== edited.isWall || node.weight !== edited.weight) {
+          edits.push({ cell: rowIdx * gridSize.cols + colIdx, isWall: edited.isWall, weight: edited.weight });
+        }
+      });
+    });
+    replanning.grid = after;
+    if (edits.length === 0) return;
+
+    setIsVisualizing(true);
+    setIsComputing(true);
+    setRunError(null);
+    resetCounters();
+    startTimeRef.current = Date.now();
+    cancelAnimationFrame(stopwatchRef.current);
+    stopwatchRef.current = requestAnimationFrame(updateStopwatch);
+
+    const timeoutMs = algorithmTimeoutMs;
+    const outcome = await replanning.session.replan(edits, timeoutMs);
+    setIsComputing(false);
+    if (outcome.status !== 'done') {
+      closeReplanning();
+      cancelAnimationFrame(stopwatchRef.current);
+      resetCounters();
+      setIsVisualizing(false);
+      if (outcome.status === 'timeout') setRunError(`${name} repair timed out after ${timeoutMs / 1000}s.`);
+      else if (outcome.status === 'error') setRunError(`${name} repair failed: ${outcome.message}`);
+      return;
+    }
+
+    const { result } = outcome;
+    const graph = createGridGraph(after, replanning.movement);
+    const repairedNodes = fromCellIndices(result.repaired, after);
+    const nodesInShortestPathOrder = fromCellIndices(result.path, after);
+    const leg: SearchLeg = {
+      visitedNodesInOrder: repairedNodes,
+      nodesInShortestPathOrder,
+      validation: validateSearchResult(
+        graph,
+        [after[replanning.start.row][replanning.start.col]],
+        [after[replanning.finish.row][replanning.finish.col]],
+        { visitedNodesInOrder: repairedNodes, nodesInShortestPathOrder },
+        fromCellIndices(result.optimalPath, after),
+        { optimalNegativeCycle: [], handlesNegativeCosts: false }
+      ),
+      pathCost: getPathCost(graph, nodesInShortestPathOrder),
+      repairOf: replanning.shown,
+    };
+    replanning.repairCount++;
+    replanning.shown = {
+      visitedNodes: replanning.shown.visitedNodes,
+      repairedNodes: [...replanning.shown.repairedNodes, ...repairedNodes],
+    };
+    const replanSummary: ReplanSummary = {
+      repairCount: replanning.repairCount,
+      changedCells: edits.length,
+      repairedNodes: repairedNodes.length,
+      dijkstraNodes: result.dijkstraVisitedCount,
+      astarNodes: result.astarVisitedCount,
+    };
+
+    const snapshot = generateSnapshot(
+      after,
+      [...replanning.shown.visitedNodes, ...replanning.shown.repairedNodes],
+      nodesInShortestPathOrder
+    );
+    playSearchTimeline(
+      [leg],
+      new Date(result.startedAt),
+      new Date(result.finishedAt),
+      result.durationMs / 1000,
+      snapshot,
+      undefined,
+      undefined,
+      undefined,
+      replanSummary
+    );
+  };
+
+  // Turns a search result into a timeline: each leg's visited nodes (with any highlights in between), then its
+  // shortest path (or the negative cycle it stopped at), in the leg's shade. Iterative-deepening legs replay every
+  // iteration instead, clearing the board between them, and repairs redraw the search they repair before animating the
+  // cells they expanded. `counts[i]` is the live readout once the first i frames are shown.
+  const buildSearchTimeline = (legs: SearchLeg[], legPathLengths: number[]) => {
     // Speed adjustment for smoother large visualizations
     const speed = selectedAlgorithm === 'bidirectionalSwarm' ? ANIMATION_SPEED_MS * 0.8 : ANIMATION_SPEED_MS;
+    const toFrame = (node: NodeData, className: string, delayMs: number): AnimationFrame => ({
+      row: node.row,
+      col: node.col,
+      className: node.isStart || node.isFinish || node.waypointNumber !== null ? null : className,
+      delayMs,
+    });
 
-    for (let i = 0; i <= visitedNodesInOrder.length; i++) {
-      if (i === visitedNodesInOrder.length) {
-        setTimeout(() => {
-          animateShortestPath(
-              nodesInShortestPathOrder,
-              executionTimeMs,
-              startTimestamp,
-              endTimestamp,
-              durationSeconds,
-              shortestPathFound,
-              snapshot,
-              visitedNodesInOrder.length
-          );
-        }, speed * i);
-        return;
-      }
-      setTimeout(() => {
-        const node = visitedNodesInOrder[i];
-        if (!node.isStart && !node.isFinish) {
-            document.getElementById(`node-${node.row}-${node.col}`)?.classList.add('node-visited');
+    const frames: AnimationFrame[] = [];
+    const counts = [{ visited: 0, path: 0, reexpansions: 0, iteration: '' }];
+    let visited = 0;
+    let path = 0;
+    let reexpansions = 0;
+    let iteration = '';
+    const push = (frame: AnimationFrame) => {
+      frames.push(frame);
+      counts.push({ visited, path, reexpansions, iteration });
+    };
+    const boundName = selectedAlgorithm === 'iddfs' ? 'depth limit' : 'f-threshold';
+
+    legs.forEach((leg, legIndex) => {
+      const classNames = getLegClassNames(legIndex);
+      // Highlights are recorded in visit order; each one appears along with the visit it followed
+      const highlights = leg.highlights ?? [];
+      let nextHighlight = 0;
+      const pushHighlightsUpTo = (visitCount: number) => {
+        for (; nextHighlight < highlights.length && highlights[nextHighlight].afterVisit <= visitCount; nextHighlight++) {
+          const { node, kind } = highlights[nextHighlight];
+          push(toFrame(node, HIGHLIGHT_CLASS_NAMES[kind], 0));
         }
-        // Live update of visited count
-        if (visitedCountRef.current) {
-            visitedCountRef.current.innerText = (i + 1).toString();
+      };
+
+      const iterations = leg.iterations ?? [];
+      if (iterations.length > 0) {
+        const expandedNodes = new Set<NodeData>();
+        iterations.forEach(({ bound, expandedNodes: iterationNodes }, iterationIndex) => {
+          const legLabel = legs.length > 1 ? `Leg ${legIndex + 1}: ` : '';
+          iteration = `${legLabel}iteration ${iterationIndex + 1}/${iterations.length}, ${boundName} ${Number(bound.toFixed(2))}`;
+          const drawn = new Map<string, AnimationFrame>();
+          for (const node of iterationNodes) {
+            // Repeats redraw ground already covered, so they play faster than first visits
+            const isRepeat = expandedNodes.has(node);
+            if (isRepeat) reexpansions++;
+            else visited++;
+            expandedNodes.add(node);
+            const frame = toFrame(node, isRepeat ? REEXPANDED_CLASS_NAME : classNames.visited, isRepeat ? speed / 4 : speed);
+            push(frame);
+            if (frame.className) drawn.set(`${node.row}-${node.col}-${frame.className}`, frame);
+          }
+          // Each iteration starts over from the start node; the last one stays on screen under the path
+          if (iterationIndex === iterations.length - 1) return;
+          [...drawn.values()].forEach((frame, i) => push({ ...frame, delayMs: i === 0 ? ITERATION_PAUSE_MS : 0, action: 'remove' }));
+        });
+      } else {
+        if (leg.repairOf) {
+          leg.repairOf.visitedNodes.forEach(node => push(toFrame(node, classNames.visited, 0)));
+          leg.repairOf.repairedNodes.forEach(node => push(toFrame(node, REPAIRED_CLASS_NAME, 0)));
         }
-      }, speed * i);
-    }
+        const visitedClassName = leg.repairOf ? REPAIRED_CLASS_NAME : classNames.visited;
+        pushHighlightsUpTo(0);
+        leg.visitedNodesInOrder.forEach((node, i) => {
+          visited++;
+          push(toFrame(node, visitedClassName, speed));
+          pushHighlightsUpTo(i + 1);
+        });
+        pushHighlightsUpTo(Infinity);
+      }
+
+      // A leg's first path cell is the previous leg's last one when that leg found a path
+      const sharedCells = leg.nodesInShortestPathOrder.length - legPathLengths[legIndex];
+      leg.nodesInShortestPathOrder.forEach((node, i) => {
+        if (i >= sharedCells) path++;
+        push(toFrame(node, classNames.path, SHORTEST_PATH_SPEED_MS));
+      });
+      (leg.negativeCycle ?? []).forEach(node => push(toFrame(node, NEGATIVE_CYCLE_CLASS_NAME, SHORTEST_PATH_SPEED_MS)));
+    });
+    return { frames, counts };
   };
 
-  const animateShortestPath = (
-      nodesInShortestPathOrder: NodeData[],
-      executionTimeMs: number,
-      startTimestamp: Date,
-      endTimestamp: Date,
-      durationSeconds: number,
-      shortestPathFound: boolean,
-      snapshot: string,
-      finalVisitedCount: number
+  const playSearchTimeline = (
+    legs: SearchLeg[],
+    startTimestamp: Date,
+    endTimestamp: Date,
+    durationSeconds: number,
+    snapshot: string,
+    waypointRoute?: WaypointRoute,
+    negativeCycle?: NegativeCycleSummary,
+    iterativeDeepening?: IterativeDeepeningSummary,
+    replanning?: ReplanSummary
   ) => {
-    for (let i = 0; i <= nodesInShortestPathOrder.length; i++) {
-      if (i === nodesInShortestPathOrder.length) {
-          setTimeout(() => {
-              // Stop stopwatch and show actual algorithm time
-              cancelAnimationFrame(stopwatchRef.current);
-              
-              const finalTime = Date.now();
-              const totalVisualTimeSeconds = (finalTime - startTimeRef.current) / 1000;
-
-              if (timeUnitRef.current) timeUnitRef.current.innerText = " s";
-              if (timeValueRef.current) timeValueRef.current.innerText = totalVisualTimeSeconds.toFixed(2);
-              
-              const newStats: GridStats = {
-                visitedNodes: finalVisitedCount,
-                shortestPathLength: nodesInShortestPathOrder.length,
-                timeTaken: totalVisualTimeSeconds
-              };
-              setStats(newStats);
-              
-              addToHistory({
-                  id: Date.now().toString(),
-                  algorithm: formatAlgorithmName(selectedAlgorithm),
-                  ...newStats,
-                  timeStart: formatTimestamp(startTimestamp),
-                  timeEnd: formatTimestamp(endTimestamp),
-                  duration: durationSeconds, // Store raw compute time
-                  shortestPathFound,
-                  snapshot,
-                  date: startTimestamp.toLocaleDateString()
-              });
-              
-              setIsVisualizing(false);
-          }, SHORTEST_PATH_SPEED_MS * i);
-          return;
-      }
-      setTimeout(() => {
-        const node = nodesInShortestPathOrder[i];
-        if (!node.isStart && !node.isFinish) {
-             document.getElementById(`node-${node.row}-${node.col}`)?.classList.add('node-shortest-path');
+    // Each leg starts where the previous one ended, so that shared cell counts once in the route
+    const legPathLengths = legs.map((leg, i) => {
+      const sharesFirstCell = i > 0 && legs[i - 1].nodesInShortestPathOrder.length > 0;
+      return Math.max(0, leg.nodesInShortestPathOrder.length - (sharesFirstCell ? 1 : 0));
+    });
+    const visitedCount = legs.reduce((sum, leg) => sum + leg.visitedNodesInOrder.length, 0);
+    const pathLength = legPathLengths.reduce((sum, length) => sum + length, 0);
+    const pathCost = legs.reduce((sum, leg) => sum + leg.pathCost, 0);
+    const validation = legs.find(leg => !leg.validation.isValid)?.validation ?? { isValid: true, reason: null };
+    let isFirstPlaythrough = true;
+    const timeline = buildSearchTimeline(legs, legPathLengths);
+
+    playback.load(timeline.frames, {
+      onFrame: (frameIndex) => {
+        // Live counters always reflect the frame on screen, including when scrubbing backwards
+        const counts = timeline.counts[frameIndex];
+        if (visitedCountRef.current) {
+            visitedCountRef.current.innerText = counts.visited.toString();
         }
-        // Live update of path length
         if (pathCountRef.current) {
-            pathCountRef.current.innerText = (i + 1).toString();
+            pathCountRef.current.innerText = counts.path.toString();
         }
-      }, SHORTEST_PATH_SPEED_MS * i);
-    }
+        if (reexpansionCountRef.current) reexpansionCountRef.current.innerText = counts.reexpansions.toString();
+        if (iterationLabelRef.current) iterationLabelRef.current.innerText = counts.iteration;
+      },
+      onEnd: () => {
+        // Later passes (replay, scrubbing) only move the frame; stats and history are recorded once
+        if (!isFirstPlaythrough) return;
+        isFirstPlaythrough = false;
+
+        // Stop stopwatch and show actual algorithm time
+        cancelAnimationFrame(stopwatchRef.current);
+        
+        const finalTime = Date.now();
+        const totalVisualTimeSeconds = (finalTime - startTimeRef.current) / 1000;
+
+        if (timeUnitRef.current) timeUnitRef.current.innerText = " s";
+        if (timeValueRef.current) timeValueRef.current.innerText = totalVisualTimeSeconds.toFixed(2);
+        
+        const newStats: GridStats = {
+          visitedNodes: visitedCount,
+          shortestPathLength: pathLength,
+          pathCost,
+          timeTaken: totalVisualTimeSeconds,
+          validationError: validation.reason,
+          waypointRoute,
+          negativeCycle,
+          iterativeDeepening,
+          replanning,
+        };
+        setStats(newStats);
+        
+        addToHistory({
+            id: Date.now().toString(),
+            algorithm: replanning ? `${formatRunLabel()}, repair ${replanning.repairCount}` : formatRunLabel(),
+            ...newStats,
+            timeStart: formatTimestamp(startTimestamp),
+            timeEnd: formatTimestamp(endTimestamp),
+            duration: durationSeconds, // Store raw compute time
+            shortestPathFound: validation.isValid,
+            snapshot,
+            date: startTimestamp.toLocaleDateString()
+        });
+        
+        setIsVisualizing(false);
+      },
+    });
+    playback.play();
   };
 
   const clearBoard = () => {
     if(isVisualizing) return;
+    recordEdit();
     setStats(null);
+    setRunError(null);
+    closeReplanning();
+    playback.clear();
     // Clear DOM classes manually
-    for (let row = 0; row < GRID_ROWS; row++) {
-      for (let col = 0; col < GRID_COLS; col++) {
+    for (let row = 0; row < gridSize.rows; row++) {
+      for (let col = 0; col < gridSize.cols; col++) {
         const node = document.getElementById(`node-${row}-${col}`);
         if (node) {
-          node.classList.remove('node-visited', 'node-shortest-path');
+          node.classList.remove(...SEARCH_CLASS_NAMES);
         }
       }
     }
+    setMarkers(NO_MARKERS);
     setGrid(getInitialGrid(startNodePos, finishNodePos)); 
     resetCounters();
   };
@@ -498,21 +1246,61 @@ const PathfindingVisualizer: React.FC = () => {
   const clearPath = () => {
     if(isVisualizing) return;
     setStats(null);
+    setRunError(null);
     resetVisuals();
     resetCounters();
   };
 
-  const formatAlgorithmName = (slug: string) => {
-    switch(slug) {
-      case 'dijkstra': return "Dijkstra's";
-      case 'astar': return "A* Search";
-      case 'greedyBfs': return "Greedy BFS";
-      case 'bidirectionalSwarm': return "Bi-Direct Swarm";
-      case 'bmssp': return "BMSSP (Duan et al. '25)";
-      default: return slug;
+  // With extra starts or finishes on the board only multi-endpoint algorithms can run
+  const hasExtraEndpoints = markers.extraStarts.length > 0 || markers.extraFinishes.length > 0;
+  // A single waypoint has only one order, so it is searched like an ordered route
+  const isUnorderedRoute = visitWaypointsInAnyOrder && markers.waypoints.length > 1;
+
+  const cellSize = Math.max(MIN_CELL_SIZE_PX, Math.min(MAX_CELL_SIZE_PX, Math.floor(GRID_TARGET_WIDTH_PX / gridSize.cols)));
+  const gridSizeKey = `${gridSize.rows}x${gridSize.cols}`;
+  const isPresetSize = GRID_SIZE_PRESETS.some(preset => `${preset.rows}x${preset.cols}` === gridSizeKey);
+
+  const formatMovementMode = (mode: MovementMode) => {
+    switch(mode) {
+      case 'fourWay': return "4-way";
+      case 'eightWay': return "8-way";
+      case 'eightWayNoCornerCutting': return "8-way, no corner cutting";
+    }
+  };
+
+  const formatQueueType = (type: PriorityQueueType) => {
+    switch(type) {
+      case 'binaryHeap': return "binary heap";
+      case 'pairingHeap': return "pairing heap";
+      case 'sortedArray': return "sorted array";
     }
   };
 
+  const formatRouteComparison = ({ cost, naiveCost }: WaypointRoute) => {
+    const format = (value: number) => Number(value.toFixed(2)).toString();
+    if (cost === Infinity) return 'No order reaches every waypoint';
+    if (naiveCost === Infinity) return `Cost ${format(cost)}; the numbered order is blocked`;
+    const saving = naiveCost > 0 ? ((naiveCost - cost) / naiveCost) * 100 : 0;
+    // The 2-opt heuristic can, rarely, end up above the numbered order
+    return `Cost ${format(cost)} vs ${format(naiveCost)} in numbered order (${Math.abs(saving).toFixed(1)}% ${saving >= 0 ? 'cheaper' : 'more expensive'})`;
+  };
+
+  // Algorithm name plus any non-default settings, for the history table
+  const formatRunLabel = () => {
+    const settings: string[] = [];
+    if (movementMode !== 'fourWay') settings.push(formatMovementMode(movementMode));
+    if (queueType !== 'binaryHeap') settings.push(formatQueueType(queueType));
+    const { waypoints, extraStarts, extraFinishes } = markers;
+    if (waypoints.length > 0) settings.push(`${waypoints.length} waypoint${waypoints.length === 1 ? '' : 's'}${isUnorderedRoute ? ' in any order' : ''}`);
+    if (extraStarts.length > 0) settings.push(`${extraStarts.length + 1} starts`);
+    if (extraFinishes.length > 0) settings.push(`nearest of ${extraFinishes.length + 1} finishes`);
+    const name = getAlgorithmLabel(selectedAlgorithm);
+    return settings.length > 0 ? `${name} (${settings.join(', ')})` : name;
+  };
+
+  // The live iteration readout needs its row while the animation runs, before the stats exist
+  const showIterativeDeepening = Boolean(stats?.iterativeDeepening) || (isVisualizing && !isBuildingMaze && isIterativeDeepening(selectedAlgorithm));
+
   return (
     <div className="flex flex-col items-center w-full min-h-screen pb-10">
       {/* Controls */}
@@ -534,7 +1322,7 @@ const PathfindingVisualizer: React.FC = () => {
                    </button>
                </div>
                <p className="text-slate-400 text-xs hidden md:block mt-1">
-                 Drag <span className="text-green-400 font-bold">Start</span> or <span className="text-red-400 font-bold">End</span>. Click/Drag <span className="text-slate-400 font-bold">Walls</span>.
+                 Drag <span className="text-green-400 font-bold">Start</span> or <span className="text-red-400 font-bold">End</span>. Draw <span className="text-slate-400 font-bold">Walls</span> or <span className="text-amber-600 font-bold">Terrain</span> with the tools below; the <span className="text-violet-400 font-bold">Waypoint</span> tool adds numbered stops, <span className="text-green-400 font-bold">+ Start</span>/<span className="text-red-400 font-bold">+ Finish</span> add endpoints.
                </p>
             </div>
 
@@ -542,15 +1330,17 @@ const PathfindingVisualizer: React.FC = () => {
                 <div className="relative">
                   <select 
                     value={selectedAlgorithm}
-                    onChange={(e) => setSelectedAlgorithm(e.target.value as AlgorithmType)}
+                    onChange={(e) => {
+                      const algorithm = e.target.value as AlgorithmType;
+                      setSelectedAlgorithm(algorithm);
+                      if (isEndpointTool(selectedTool) && !isMultiEndpointAlgorithm(algorithm)) setSelectedTool('draw');
+                    }}
                     disabled={isVisualizing}
                     className="appearance-none bg-slate-800 text-slate-300 px-4 py-2 pr-8 rounded-lg border border-slate-700 hover:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500 transition-all disabled:opacity-50 cursor-pointer font-medium text-sm"
                   >
-                    <option value="dijkstra">Dijkstra's Algorithm</option>
-                    <option value="astar">A* Search</option>
-                    <option value="greedyBfs">Greedy Best-First Search</option>
-                    <option value="bidirectionalSwarm">Bidirectional Swarm</option>
-                    <option value="bmssp">BMSSP (Duan et al. '25)</option>
+                    {ALGORITHM_OPTIONS.map(({ type, name }) => (
+                      <option key={type} value={type} disabled={hasExtraEndpoints && !isMultiEndpointAlgorithm(type)}>{name}</option>
+                    ))}
                   </select>
                   <div className="absolute right-3 top-1/2 -translate-y-1/2 pointer-events-none text-slate-400">
                     <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -559,14 +1349,295 @@ const PathfindingVisualizer: React.FC = () => {
                   </div>
                 </div>
 
+                <div className="relative">
+                  <select 
+                    value={movementMode}
+                    onChange={(e) => setMovementMode(e.target.value as MovementMode)}
+                    disabled={isVisualizing}
+                    title="Movement"
+                    className="appearance-none bg-slate-800 text-slate-300 px-4 py-2 pr-8 rounded-lg border border-slate-700 hover:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500 transition-all disabled:opacity-50 cursor-pointer font-medium text-sm"
+                  >
+                    <option value="fourWay">4-way Movement</option>
+                    <option value="eightWay">8-way Movement</option>
+                    <option value="eightWayNoCornerCutting">8-way, No Corner Cutting</option>
+                  </select>
+                  <div className="absolute right-3 top-1/2 -translate-y-1/2 pointer-events-none text-slate-400">
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                    </svg>
+                  </div>
+                </div>
+
+                <div className="relative">
+                  <select 
+                    value={queueType}
+                    onChange={(e) => setQueueType(e.target.value as PriorityQueueType)}
+                    disabled={isVisualizing}
+                    title="Priority Queue"
+                    className="appearance-none bg-slate-800 text-slate-300 px-4 py-2 pr-8 rounded-lg border border-slate-700 hover:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500 transition-all disabled:opacity-50 cursor-pointer font-medium text-sm"
+                  >
+                    <option value="binaryHeap">Queue: Binary Heap</option>
+                    <option value="pairingHeap">Queue: Pairing Heap</option>
+                    <option value="sortedArray">Queue: Sorted Array</option>
+                  </select>
+                  <div className="absolute right-3 top-1/2 -translate-y-1/2 pointer-events-none text-slate-400">
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                    </svg>
+                  </div>
+                </div>
+
+                <div className="relative">
+                  <select 
+                    value={algorithmTimeoutMs}
+                    onChange={(e) => setAlgorithmTimeoutMs(Number(e.target.value))}
+                    disabled={isVisualizing}
+                    title="Timeout"
+                    className="appearance-none bg-slate-800 text-slate-300 px-4 py-2 pr-8 rounded-lg border border-slate-700 hover:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500 transition-all disabled:opacity-50 cursor-pointer font-medium text-sm"
+                  >
+                    {ALGORITHM_TIMEOUT_OPTIONS_MS.map(ms => (
+                      <option key={ms} value={ms}>Timeout: {ms === 0 ? 'Off' : `${ms / 1000}s`}</option>
+                    ))}
+                  </select>
+                  <div className="absolute right-3 top-1/2 -translate-y-1/2 pointer-events-none text-slate-400">
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                    </svg>
+                  </div>
+                </div>
+
+                <div className="relative">
+                  <select 
+                    value={selectedBrush}
+                    onChange={(e) => setSelectedBrush(e.target.value as BrushType)}
+                    disabled={isVisualizing}
+                    title="Brush"
+                    className="appearance-none bg-slate-800 text-slate-300 px-4 py-2 pr-8 rounded-lg border border-slate-700 hover:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500 transition-all disabled:opacity-50 cursor-pointer font-medium text-sm"
+                  >
+                    <option value="wall">Brush: Wall</option>
+                    {Object.entries(TERRAINS).map(([type, terrain]) => (
+                      <option key={type} value={type}>Brush: {terrain.label} ({terrain.weight})</option>
+                    ))}
+                  </select>
+                  <div className="absolute right-3 top-1/2 -translate-y-1/2 pointer-events-none text-slate-400">
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                    </svg>
+                  </div>
+                </div>
+
+                <div className="flex items-center" role="group" aria-label="Drawing tool">
+                  {DRAWING_TOOLS.map(({ tool, label }, i) => (
+                    <button
+                      key={tool}
+                      onClick={() => setSelectedTool(tool)}
+                      disabled={isVisualizing || (isEndpointTool(tool) && !isMultiEndpointAlgorithm(selectedAlgorithm))}
+                      title={isEndpointTool(tool) ? EXTRA_ENDPOINTS_HINT : undefined}
+                      className={`px-3 py-2 text-sm font-medium border border-slate-700 transition-all disabled:opacity-50 ${i > 0 ? 'border-l-0' : 'rounded-l-lg'} ${i === DRAWING_TOOLS.length - 1 ? 'rounded-r-lg' : ''} ${selectedTool === tool ? 'bg-indigo-600 text-white' : 'bg-slate-800 text-slate-300 hover:bg-slate-700'}`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+
+                <div className="relative">
+                  <select 
+                    value={brushRadius}
+                    onChange={(e) => setBrushRadius(Number(e.target.value))}
+                    disabled={isVisualizing || selectedTool === 'fill' || selectedTool === 'rectangle' || MARKER_TOOL_LISTS[selectedTool] !== undefined}
+                    title="Brush Size"
+                    className="appearance-none bg-slate-800 text-slate-300 px-4 py-2 pr-8 rounded-lg border border-slate-700 hover:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500 transition-all disabled:opacity-50 cursor-pointer font-medium text-sm"
+                  >
+                    {BRUSH_RADII.map(radius => (
+                      <option key={radius} value={radius}>Size: {radius * 2 + 1}</option>
+                    ))}
+                  </select>
+                  <div className="absolute right-3 top-1/2 -translate-y-1/2 pointer-events-none text-slate-400">
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                    </svg>
+                  </div>
+                </div>
+
+                <label
+                  className="flex items-center gap-1 px-3 py-2 text-sm text-slate-400 bg-slate-800 border border-slate-700 rounded-lg cursor-pointer"
+                  title="Visit the waypoints in the cheapest order instead of their numbered order"
+                >
+                  <input
+                    type="checkbox"
+                    checked={visitWaypointsInAnyOrder}
+                    onChange={(e) => setVisitWaypointsInAnyOrder(e.target.checked)}
+                    disabled={isVisualizing}
+                    className="accent-indigo-500"
+                  />
+                  Any Order
+                </label>
+
+                <div className="relative">
+                  <select 
+                    value={showCustomSize || !isPresetSize ? 'custom' : gridSizeKey}
+                    onChange={(e) => handleGridSizeChange(e.target.value)}
+                    disabled={isVisualizing}
+                    title="Grid Size"
+                    className="appearance-none bg-slate-800 text-slate-300 px-4 py-2 pr-8 rounded-lg border border-slate-700 hover:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500 transition-all disabled:opacity-50 cursor-pointer font-medium text-sm"
+                  >
+                    {GRID_SIZE_PRESETS.map(preset => (
+                      <option key={`${preset.rows}x${preset.cols}`} value={`${preset.rows}x${preset.cols}`}>
+                        Grid: {preset.rows}×{preset.cols}
+                      </option>
+                    ))}
+                    <option value="custom">Grid: Custom…</option>
+                  </select>
+                  <div className="absolute right-3 top-1/2 -translate-y-1/2 pointer-events-none text-slate-400">
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                    </svg>
+                  </div>
+                </div>
+
+                {showCustomSize && (
+                  <form
+                    className="flex items-center gap-1 text-sm text-slate-400"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      resizeGrid(customSize);
+                    }}
+                  >
+                    <input
+                      type="number"
+                      min={MIN_GRID_DIMENSION}
+                      max={MAX_GRID_DIMENSION}
+                      value={customSize.rows}
+                      onChange={(e) => setCustomSize({ ...customSize, rows: Number(e.target.value) })}
+                      disabled={isVisualizing}
+                      className="w-16 bg-slate-800 text-slate-300 px-2 py-2 rounded-lg border border-slate-700 font-mono"
+                      title="Rows"
+                    />
+                    ×
+                    <input
+                      type="number"
+                      min={MIN_GRID_DIMENSION}
+                      max={MAX_GRID_DIMENSION}
+                      value={customSize.cols}
+                      onChange={(e) => setCustomSize({ ...customSize, cols: Number(e.target.value) })}
+                      disabled={isVisualizing}
+                      className="w-16 bg-slate-800 text-slate-300 px-2 py-2 rounded-lg border border-slate-700 font-mono"
+                      title="Columns"
+                    />
+                    <button
+                      type="submit"
+                      disabled={isVisualizing}
+                      className="px-3 py-2 text-sm font-medium text-slate-300 bg-slate-800 rounded-lg hover:bg-slate-700 disabled:opacity-50 transition-all border border-slate-700"
+                    >
+                      Resize
+                    </button>
+                  </form>
+                )}
+
+                <div className="flex items-center">
+                  <div className="relative">
+                    <select 
+                      value={selectedMaze}
+                      onChange={(e) => setSelectedMaze(e.target.value as MazeType)}
+                      disabled={isVisualizing}
+                      title="Maze Generator"
+                      className="appearance-none bg-slate-800 text-slate-300 px-4 py-2 pr-8 rounded-l-lg border border-slate-700 hover:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500 transition-all disabled:opacity-50 cursor-pointer font-medium text-sm"
+                    >
+                      <option value="recursiveDivision">Recursive Division</option>
+                      <option value="recursiveDivisionHorizontal">Recursive Division (Horizontal)</option>
+                      <option value="recursiveDivisionVertical">Recursive Division (Vertical)</option>
+                      <option value="dfsBacktracker">DFS Backtracker</option>
+                      <option value="prim">Randomized Prim's</option>
+                      <option value="kruskal">Randomized Kruskal's</option>
+                      <option value="eller">Eller's Algorithm</option>
+                      <option value="binaryTree">Binary Tree</option>
+                      <option value="sidewinder">Sidewinder</option>
+                      <option value="random">Random Walls</option>
+                    </select>
+                    <div className="absolute right-3 top-1/2 -translate-y-1/2 pointer-events-none text-slate-400">
+                      <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                      </svg>
+                    </div>
+                  </div>
+                  <label
+                    className="flex items-center gap-1 px-3 py-2 text-sm text-slate-400 bg-slate-800 border-y border-slate-700 cursor-pointer"
+                    title="Animate maze construction (uncheck to skip)"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={animateMaze}
+                      onChange={(e) => setAnimateMaze(e.target.checked)}
+                      disabled={isVisualizing}
+                      className="accent-indigo-500"
+                    />
+                    Animate
+                  </label>
+                  <button
+                    onClick={handleGenerateMaze}
+                    disabled={isVisualizing}
+                    className="px-4 py-2 text-sm font-medium text-slate-300 bg-slate-800 rounded-r-lg hover:bg-slate-700 disabled:opacity-50 transition-all border border-slate-700"
+                  >
+                    Generate Maze
+                  </button>
+                </div>
+
                 <button
-                  onClick={handleGenerateMaze}
+                  onClick={() => setShowRace(true)}
                   disabled={isVisualizing}
                   className="px-4 py-2 text-sm font-medium text-slate-300 bg-slate-800 rounded-lg hover:bg-slate-700 disabled:opacity-50 transition-all border border-slate-700"
                 >
-                  Random Maze
+                  Race
+                </button>
+                <button
+                  onClick={() => setShowSimulation(true)}
+                  disabled={isVisualizing}
+                  className="px-4 py-2 text-sm font-medium text-slate-300 bg-slate-800 rounded-lg hover:bg-slate-700 disabled:opacity-50 transition-all border border-slate-700"
+                >
+                  Simulate
+                </button>
+                <button
+                  onClick={() => setShowLayouts(true)}
+                  disabled={isVisualizing}
+                  className="px-4 py-2 text-sm font-medium text-slate-300 bg-slate-800 rounded-lg hover:bg-slate-700 disabled:opacity-50 transition-all border border-slate-700"
+                >
+                  Layouts
+                </button>
+                <button
+                  onClick={() => setShowScenarios(true)}
+                  disabled={isVisualizing}
+                  className="px-4 py-2 text-sm font-medium text-slate-300 bg-slate-800 rounded-lg hover:bg-slate-700 disabled:opacity-50 transition-all border border-slate-700"
+                >
+                  Benchmarks
                 </button>
-
+                <button
+                  onClick={copyShareLink}
+                  className="px-4 py-2 text-sm font-medium text-slate-300 bg-slate-800 rounded-lg hover:bg-slate-700 disabled:opacity-50 transition-all border border-slate-700"
+                >
+                  {linkCopied ? 'Link Copied!' : 'Copy Link'}
+                </button>
+                <div className="flex items-center">
+                  <button
+                    onClick={undo}
+                    disabled={isVisualizing || undoStack.length === 0}
+                    title="Undo (Ctrl+Z)"
+                    className="p-2 text-slate-300 bg-slate-800 rounded-l-lg hover:bg-slate-700 disabled:opacity-50 transition-all border border-slate-700"
+                  >
+                    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
+                      <path strokeLinecap="round" strokeLinejoin="round" d="M9 15 3 9m0 0 6-6M3 9h12a6 6 0 0 1 0 12h-3" />
+                    </svg>
+                  </button>
+                  <button
+                    onClick={redo}
+                    disabled={isVisualizing || redoStack.length === 0}
+                    title="Redo (Ctrl+Shift+Z)"
+                    className="p-2 text-slate-300 bg-slate-800 rounded-r-lg hover:bg-slate-700 disabled:opacity-50 transition-all border border-l-0 border-slate-700"
+                  >
+                    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
+                      <path strokeLinecap="round" strokeLinejoin="round" d="m15 15 6-6m0 0-6-6m6 6H9a6 6 0 0 0 0 12h3" />
+                    </svg>
+                  </button>
+                </div>
                 <button
                   onClick={clearBoard}
                   disabled={isVisualizing}
@@ -593,7 +1664,7 @@ const PathfindingVisualizer: React.FC = () => {
                               <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                               <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                            </svg>
-                           Running...
+                           {isBuildingMaze ? 'Building...' : isComputing ? 'Computing...' : 'Running...'}
                          </>
                     ) : (
                         <>
@@ -605,20 +1676,58 @@ const PathfindingVisualizer: React.FC = () => {
                     )}
                   </span>
                 </button>
+                {isComputing && (
+                  <button
+                    onClick={() => activeRunRef.current?.cancel()}
+                    className="px-4 py-2 text-sm font-medium text-rose-300 bg-slate-800 rounded-lg hover:bg-rose-900/40 transition-all border border-rose-700/60"
+                  >
+                    Cancel
+                  </button>
+                )}
             </div>
          </div>
       </div>
 
+      {/* Worker Progress */}
+      {isComputing && (
+        <div className="w-full max-w-4xl mt-6 px-4">
+          <div className="bg-slate-800/50 border border-slate-700 p-3 rounded-xl flex items-center gap-4">
+            <span className="text-slate-400 text-xs uppercase tracking-wider font-semibold shrink-0">Computing</span>
+            <div className="flex-1 h-2 bg-slate-900 rounded-full overflow-hidden">
+              <div ref={progressBarRef} className="h-full bg-indigo-500 transition-[width] duration-200" style={{ width: '0%' }} />
+            </div>
+            <span ref={progressTextRef} className="text-xs font-mono text-slate-400 tabular-nums shrink-0">0 nodes expanded</span>
+          </div>
+        </div>
+      )}
+
+      {runError && !isVisualizing && (
+        <div className="w-full max-w-4xl mt-6 px-4">
+          <div className="bg-rose-900/20 border border-rose-700/50 text-rose-300 text-sm p-3 rounded-xl">
+            {runError}
+          </div>
+        </div>
+      )}
+
       {/* Stats Bar */}
-      <div className={`w-full max-w-4xl mt-6 grid grid-cols-1 md:grid-cols-3 gap-4 px-4 transition-all duration-500 ${stats || isVisualizing ? 'opacity-100 translate-y-0' : 'opacity-0 -translate-y-4'}`}>
+      <div className={`w-full max-w-4xl mt-6 grid grid-cols-2 md:grid-cols-4 gap-4 px-4 transition-all duration-500 ${stats || (isVisualizing && !isBuildingMaze) ? 'opacity-100 translate-y-0' : 'opacity-0 -translate-y-4'}`}>
          <div className="bg-slate-800/50 border border-slate-700 p-4 rounded-xl flex flex-col items-center">
             <span className="text-slate-400 text-xs uppercase tracking-wider font-semibold">Visited Nodes</span>
             <span ref={visitedCountRef} className="text-2xl font-bold text-indigo-400 tabular-nums">{stats?.visitedNodes || 0}</span>
+            {showIterativeDeepening && (
+              <span className="text-xs text-indigo-300/70 tabular-nums">
+                +<span ref={reexpansionCountRef}>{stats?.iterativeDeepening?.reexpansions || 0}</span> re-expanded
+              </span>
+            )}
          </div>
          <div className="bg-slate-800/50 border border-slate-700 p-4 rounded-xl flex flex-col items-center">
              <span className="text-slate-400 text-xs uppercase tracking-wider font-semibold">Path Length</span>
              <span ref={pathCountRef} className="text-2xl font-bold text-amber-400 tabular-nums">{stats?.shortestPathLength || 0}</span>
          </div>
+         <div className="bg-slate-800/50 border border-slate-700 p-4 rounded-xl flex flex-col items-center">
+             <span className="text-slate-400 text-xs uppercase tracking-wider font-semibold">Path Cost</span>
+             <span className="text-2xl font-bold text-orange-400 tabular-nums">{Number((stats?.pathCost || 0).toFixed(2))}</span>
+         </div>
          <div className="bg-slate-800/50 border border-slate-700 p-4 rounded-xl flex flex-col items-center">
              <span className="text-slate-400 text-xs uppercase tracking-wider font-semibold">Time Taken</span>
              <span className="text-2xl font-bold text-emerald-400 tabular-nums">
@@ -626,18 +1735,67 @@ const PathfindingVisualizer: React.FC = () => {
                 <span ref={timeUnitRef} className="text-sm text-emerald-600 font-normal"> s</span>
              </span>
          </div>
+         {stats?.validationError && (
+           <div className="col-span-2 md:col-span-4 bg-amber-400/10 border border-amber-400/30 text-amber-300 text-sm px-4 py-2 rounded-xl flex items-center gap-2">
+             <span className="text-xs uppercase tracking-wider font-semibold text-amber-400/80">Not optimal:</span>
+             {stats.validationError}
+           </div>
+         )}
+         {stats?.negativeCycle && (
+           <div className="col-span-2 md:col-span-4 bg-rose-500/10 border border-rose-500/30 text-rose-200 text-sm px-4 py-2 rounded-xl flex flex-wrap items-center gap-x-3 gap-y-1">
+             <span className="text-xs uppercase tracking-wider font-semibold text-rose-400/80">Negative cycle:</span>
+             <span>
+               {stats.negativeCycle.length} cells, cost {Number(stats.negativeCycle.cost.toFixed(2))} per lap, so every lap makes the route cheaper and no shortest path exists
+             </span>
+           </div>
+         )}
+         {showIterativeDeepening && (
+           <div className="col-span-2 md:col-span-4 bg-indigo-500/10 border border-indigo-500/30 text-indigo-200 text-sm px-4 py-2 rounded-xl flex flex-wrap items-center gap-x-3 gap-y-1">
+             <span className="text-xs uppercase tracking-wider font-semibold text-indigo-400/80">Iterative deepening:</span>
+             <span ref={iterationLabelRef}></span>
+             {stats?.iterativeDeepening && (
+               <span className="text-xs text-indigo-300/60">
+                 {stats.iterativeDeepening.iterationCount} iterations in total, peak memory {stats.iterativeDeepening.peakStackDepth} cells on the search stack
+               </span>
+             )}
+           </div>
+         )}
+         {stats?.replanning && (
+           <div className="col-span-2 md:col-span-4 bg-emerald-500/10 border border-emerald-500/30 text-emerald-200 text-sm px-4 py-2 rounded-xl flex flex-wrap items-center gap-x-3 gap-y-1">
+             <span className="text-xs uppercase tracking-wider font-semibold text-emerald-400/80">Repair {stats.replanning.repairCount}:</span>
+             <span>
+               {stats.replanning.changedCells} edited cell{stats.replanning.changedCells === 1 ? '' : 's'}, {stats.replanning.repairedNodes} nodes touched
+             </span>
+             <span className="text-xs text-emerald-300/60">
+               From scratch on the edited board: Dijkstra {stats.replanning.dijkstraNodes}, A* {stats.replanning.astarNodes}
+             </span>
+           </div>
+         )}
+         {stats?.waypointRoute && (
+           <div className="col-span-2 md:col-span-4 bg-violet-500/10 border border-violet-500/30 text-violet-200 text-sm px-4 py-2 rounded-xl flex flex-wrap items-center gap-x-3 gap-y-1">
+             <span className="text-xs uppercase tracking-wider font-semibold text-violet-400/80">Visiting order:</span>
+             <span className="font-mono">Start → {stats.waypointRoute.order.join(' → ')} → Finish</span>
+             <span>{formatRouteComparison(stats.waypointRoute)}</span>
+             <span className="text-xs text-violet-300/60">
+               {stats.waypointRoute.method === 'heldKarp' ? 'Held–Karp (exact)' : 'Nearest neighbour + 2-opt'}, {stats.waypointRoute.searchCount} pairwise searches
+             </span>
+           </div>
+         )}
       </div>
 
+      <PlaybackBar controller={playback} />
+
       {/* Grid Container */}
       <div className="mt-8 p-4 bg-slate-900 rounded-lg shadow-2xl overflow-x-auto max-w-[98vw] border border-slate-800"
            onMouseLeave={handleMouseUp}>
-        <div className="inline-grid gap-0" style={{ gridTemplateColumns: `repeat(${GRID_COLS}, min-content)` }}>
+        <div className="inline-grid gap-0" style={{ gridTemplateColumns: `repeat(${gridSize.cols}, min-content)` }}>
           {grid.map((row, rowIdx) => (
             <React.Fragment key={rowIdx}>
               {row.map((node, nodeIdx) => (
                 <Node
                   key={`${rowIdx}-${nodeIdx}`}
                   node={node}
+                  size={cellSize}
                   onMouseDown={handleMouseDown}
                   onMouseEnter={handleMouseEnter}
                   onMouseUp={handleMouseUp}
@@ -666,6 +1824,12 @@ const PathfindingVisualizer: React.FC = () => {
               <div className="w-5 h-5 bg-slate-500 border border-slate-600 rounded-sm"></div>
               <span>Wall</span>
           </div>
+          {Object.values(TERRAINS).map(terrain => (
+            <div key={terrain.label} className="flex items-center gap-2">
+                <div className={`w-5 h-5 border rounded-sm ${terrain.className}`}></div>
+                <span>{terrain.label} (cost {terrain.weight})</span>
+            </div>
+          ))}
           <div className="flex items-center gap-2">
               <div className="w-5 h-5 bg-indigo-500 rounded-sm shadow-[0_0_10px_rgba(99,102,241,0.5)]"></div>
               <span>Visited</span>
@@ -674,6 +1838,18 @@ const PathfindingVisualizer: React.FC = () => {
               <div className="w-5 h-5 bg-amber-500 rounded-sm shadow-[0_0_10px_rgba(245,158,11,0.5)]"></div>
               <span>Shortest Path</span>
           </div>
+          <div className="flex items-center gap-2">
+              <div className="w-5 h-5 bg-rose-500 rounded-sm shadow-[0_0_10px_rgba(244,63,94,0.5)]"></div>
+              <span>Negative Cycle</span>
+          </div>
+          <div className="flex items-center gap-2">
+              <div className="w-5 h-5 bg-indigo-800 rounded-sm"></div>
+              <span>Re-expanded</span>
+          </div>
+          <div className="flex items-center gap-2">
+              <div className="w-5 h-5 bg-emerald-500 rounded-sm"></div>
+              <span>Repaired</span>
+          </div>
       </div>
 
       {/* History Table */}
@@ -698,6 +1874,7 @@ const PathfindingVisualizer: React.FC = () => {
                   <th className="px-6 py-3">Algorithm</th>
                   <th className="px-6 py-3">Visited</th>
                   <th className="px-6 py-3">Path</th>
+                  <th className="px-6 py-3">Cost</th>
                   <th className="px-6 py-3">Visual Time (s)</th>
                   <th className="px-6 py-3">Compute Time (s)</th>
                   <th className="px-6 py-3">Time Start</th>
@@ -708,7 +1885,7 @@ const PathfindingVisualizer: React.FC = () => {
               <tbody className="divide-y divide-slate-700">
                 {history.length === 0 ? (
                   <tr>
-                    <td colSpan={9} className="px-6 py-8 text-center text-slate-500">
+                    <td colSpan={10} className="px-6 py-8 text-center text-slate-500">
                       No algorithms run yet. Visualize an algorithm to see stats here.
                     </td>
                   </tr>
@@ -733,6 +1910,7 @@ const PathfindingVisualizer: React.FC = () => {
                       <td className="px-6 py-4 font-medium text-indigo-300">{entry.algorithm}</td>
                       <td className="px-6 py-4">{entry.visitedNodes}</td>
                       <td className="px-6 py-4 font-semibold text-amber-400">{entry.shortestPathLength || "-"}</td>
+                      <td className="px-6 py-4 text-orange-400">{entry.pathCost ? Number(entry.pathCost.toFixed(2)) : "-"}</td>
                       <td className="px-6 py-4 text-emerald-400 font-mono">{entry.timeTaken.toFixed(2)}</td>
                       <td className="px-6 py-4 text-slate-300 font-mono">{entry.duration.toFixed(6)}</td>
                       <td className="px-6 py-4 text-slate-400 text-xs">{entry.timeStart}</td>
@@ -746,9 +1924,14 @@ const PathfindingVisualizer: React.FC = () => {
                                   Yes
                               </span>
                           ) : (
-                              <span className="inline-flex items-center gap-1 text-amber-400 text-xs font-medium bg-amber-400/10 px-2 py-1 rounded-full border border-amber-400/20">
-                                  No
-                              </span>
+                              <div className="flex flex-col items-start gap-1">
+                                  <span className="inline-flex items-center gap-1 text-amber-400 text-xs font-medium bg-amber-400/10 px-2 py-1 rounded-full border border-amber-400/20">
+                                      No
+                                  </span>
+                                  {entry.validationError && (
+                                      <span className="text-[11px] text-amber-300/70 whitespace-normal max-w-[16rem]">{entry.validationError}</span>
+                                  )}
+                              </div>
                           )}
                       </td>
                     </tr>
@@ -761,7 +1944,47 @@ const PathfindingVisualizer: React.FC = () => {
       </div>
       
       {/* Modals */}
-      <InfoModal isOpen={showInfo} onClose={() => setShowInfo(false)} />
+      <InfoModal isOpen={showInfo} onClose={() => setShowInfo(false)} gridSize={gridSize} />
+      <RaceModal
+        isOpen={showRace}
+        onClose={() => setShowRace(false)}
+        grid={grid}
+        startPos={startNodePos}
+        finishPos={finishNodePos}
+        movement={movementMode}
+        queueType={queueType}
+        timeoutMs={algorithmTimeoutMs}
+      />
+      <SimulationModal
+        isOpen={showSimulation}
+        onClose={() => setShowSimulation(false)}
+        grid={grid}
+        startPos={startNodePos}
+        finishPos={finishNodePos}
+        algorithm={selectedAlgorithm}
+        movement={movementMode}
+        queueType={queueType}
+        timeoutMs={algorithmTimeoutMs}
+      />
+      <LayoutLibrary
+        isOpen={showLayouts}
+        onClose={() => setShowLayouts(false)}
+        grid={grid}
+        startPos={startNodePos}
+        finishPos={finishNodePos}
+        onLoad={loadLayout}
+      />
+      <ScenarioRunner
+        isOpen={showScenarios}
+        onClose={() => setShowScenarios(false)}
+        onLoadLayout={(layout) => {
+          // Moving AI optimal lengths assume octile movement without corner cutting
+          loadLayout(layout);
+          setMovementMode('eightWayNoCornerCutting');
+        }}
+        queueType={queueType}
+        timeoutMs={algorithmTimeoutMs}
+      />
       
       {/* Expanded Image Modal */}
       {expandedImage && (
@@ -0,0 +1,80 @@
+import React, { useSyncExternalStore } from 'react';
+import { PlaybackController } from '../playback/playbackController';
+import { PLAYBACK_SPEEDS } from '../constants';
+
+interface PlaybackBarProps {
+  controller: PlaybackController;
+}
+
+const buttonClassName = "p-2 text-slate-300 bg-slate-800 rounded-lg hover:bg-slate-700 disabled:opacity-40 transition-all border border-slate-700";
+
+const PlaybackBar: React.FC<PlaybackBarProps> = ({ controller }) => {
+  // Subscribing here keeps per-frame updates out of the (large) grid component
+  const { frameIndex, frameCount, isPlaying, speed } = useSyncExternalStore(controller.subscribe, controller.getState);
+
+  if (frameCount === 0) return null;
+
+  const atStart = frameIndex === 0;
+  const atEnd = frameIndex === frameCount;
+
+  return (
+    <div className="w-full max-w-4xl mt-4 px-4">
+      <div className="bg-slate-800/50 border border-slate-700 rounded-xl px-4 py-3 flex flex-wrap items-center gap-3">
+        <button onClick={controller.stepBackward} disabled={atStart} className={buttonClassName} title="Step back">
+          <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-4 h-4">
+            <path d="M9.195 18.44c1.25.714 2.805-.189 2.805-1.629v-2.34l6.945 3.968c1.25.715 2.805-.188 2.805-1.628V8.69c0-1.44-1.555-2.343-2.805-1.628L12 11.029v-2.34c0-1.44-1.555-2.343-2.805-1.628l-7.108 4.061c-1.26.72-1.26 2.536 0 3.256l7.108 4.061Z" />
+          </svg>
+        </button>
+        <button
+          onClick={isPlaying ? controller.pause : controller.play}
+          className="p-2 text-white bg-indigo-600 rounded-lg hover:bg-indigo-500 transition-all"
+          title={isPlaying ? "Pause" : "Play"}
+        >
+          {isPlaying ? (
+            <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-4 h-4">
+              <path fillRule="evenodd" d="M6.75 5.25a.75.75 0 0 1 .75-.75H9a.75.75 0 0 1 .75.75v13.5a.75.75 0 0 1-.75.75H7.5a.75.75 0 0 1-.75-.75V5.25Zm7.5 0A.75.75 0 0 1 15 4.5h1.5a.75.75 0 0 1 .75.75v13.5a.75.75 0 0 1-.75.75H15a.75.75 0 0 1-.75-.75V5.25Z" clipRule="evenodd" />
+            </svg>
+          ) : (
+            <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-4 h-4">
+              <path fillRule="evenodd" d="M4.5 5.653c0-1.426 1.529-2.33 2.779-1.643l11.54 6.348c1.295.712 1.295 2.573 0 3.285L7.28 19.991c-1.25.687-2.779-.217-2.779-1.643V5.653Z" clipRule="evenodd" />
+            </svg>
+          )}
+        </button>
+        <button onClick={controller.stepForward} disabled={atEnd} className={buttonClassName} title="Step forward">
+          <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-4 h-4">
+            <path d="M5.055 7.06C3.805 6.347 2.25 7.25 2.25 8.69v8.122c0 1.44 1.555 2.343 2.805 1.628L12 14.471v2.34c0 1.44 1.555 2.343 2.805 1.628l7.108-4.061c1.26-.72 1.26-2.536 0-3.256l-7.108-4.061C13.555 6.346 12 7.249 12 8.689v2.34L5.055 7.061Z" />
+          </svg>
+        </button>
+        <button onClick={controller.skipToEnd} disabled={atEnd} className={buttonClassName} title="Skip to end">
+          <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-4 h-4">
+            <path d="M5.055 7.06C3.805 6.347 2.25 7.25 2.25 8.69v8.122c0 1.44 1.555 2.343 2.805 1.628L12 14.471v2.34c0 1.44 1.555 2.343 2.805 1.628l5.695-3.254V18a.75.75 0 0 0 1.5 0V6a.75.75 0 0 0-1.5 0v3.064l-5.695-3.254C13.555 6.346 12 7.249 12 8.689v2.34L5.055 7.061Z" />
+          </svg>
+        </button>
+
+        <input
+          type="range"
+          min={0}
+          max={frameCount}
+          value={frameIndex}
+          onChange={(e) => controller.seek(Number(e.target.value))}
+          className="flex-1 min-w-[8rem] accent-indigo-500 cursor-pointer"
+          title="Scrub"
+        />
+        <span className="text-xs font-mono text-slate-400 tabular-nums">{frameIndex} / {frameCount}</span>
+
+        <select
+          value={speed}
+          onChange={(e) => controller.setSpeed(Number(e.target.value))}
+          className="bg-slate-800 text-slate-300 px-2 py-1 rounded-lg border border-slate-700 text-xs font-mono cursor-pointer"
+          title="Playback speed"
+        >
+          {PLAYBACK_SPEEDS.map(s => (
+            <option key={s} value={s}>{s}x</option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+};
+
+export default PlaybackBar;
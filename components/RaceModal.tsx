@@ -0,0 +1,406 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { flushSync } from 'react-dom';
+import { AlgorithmType, GridPosition, MovementMode, NodeData, PriorityQueueType } from '../types';
+import {
+  ALGORITHM_OPTIONS,
+  ANIMATION_SPEED_MS,
+  getAlgorithmLabel,
+  handlesNegativeCosts,
+  PLAYBACK_SPEEDS,
+  RACE_COLORS,
+  RACE_GRID_WIDTH_PX,
+  RACE_MAX_ALGORITHMS,
+  RACE_MIN_ALGORITHMS,
+  TERRAINS,
+} from '../constants';
+import { createGridGraph, getPathCost, hasNegativeCosts } from '../algorithms/gridGraph';
+import { validateSearchResult } from '../algorithms/pathValidator';
+import { AlgorithmRun, getRunTimeoutMs, OUTSIDE_COST_MODEL_TIMEOUT_HINT, runAlgorithmInWorker } from '../workers/algorithmRunner';
+import { fromCellIndices, serializeGrid } from '../workers/serialization';
+
+interface RaceModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  grid: NodeData[][];
+  startPos: GridPosition;
+  finishPos: GridPosition;
+  movement: MovementMode;
+  queueType: PriorityQueueType;
+  timeoutMs: number;
+}
+
+interface Racer {
+  algorithm: AlgorithmType;
+  visited: NodeData[];
+  path: NodeData[];
+  pathCost: number;
+  isOptimal: boolean;
+  validationError: string | null;
+  durationMs: number;
+  // Race step at which this racer drew its last path cell
+  finishStep: number;
+}
+
+type RaceStatus = 'idle' | 'computing' | 'racing' | 'finished';
+
+const RaceModal: React.FC<RaceModalProps> = ({ isOpen, onClose, grid, startPos, finishPos, movement, queueType, timeoutMs }) => {
+  const [selected, setSelected] = useState<AlgorithmType[]>(['dijkstra', 'astar']);
+  const [status, setStatus] = useState<RaceStatus>('idle');
+  const [racers, setRacers] = useState<Racer[]>([]);
+  const [speed, setSpeed] = useState(1);
+  const [error, setError] = useState<string | null>(null);
+
+  // Animation state lives in refs so the rAF loop always sees the latest values
+  const canvasRefs = useRef<(HTMLCanvasElement | null)[]>([]);
+  const visitedCountRefs = useRef<(HTMLSpanElement | null)[]>([]);
+  const pathCountRefs = useRef<(HTMLSpanElement | null)[]>([]);
+  const stepRef = useRef(0);
+  const speedRef = useRef(1);
+  const rafRef = useRef(0);
+  const runsRef = useRef<AlgorithmRun[]>([]);
+
+  const rows = grid.length;
+  const cols = grid[0]?.length ?? 0;
+  const scale = Math.max(1, Math.floor(RACE_GRID_WIDTH_PX / Math.max(rows, cols)));
+
+  const stopRace = () => {
+    cancelAnimationFrame(rafRef.current);
+    runsRef.current.forEach(run => run.cancel());
+    runsRef.current = [];
+  };
+
+  useEffect(() => {
+    if (!isOpen) {
+      stopRace();
+      setStatus('idle');
+      setRacers([]);
+      setError(null);
+    }
+  }, [isOpen]);
+
+  useEffect(() => stopRace, []);
+
+  useEffect(() => {
+    speedRef.current = speed;
+  }, [speed]);
+
+  const fillCell = (ctx: CanvasRenderingContext2D, node: { row: number; col: number }) => {
+    ctx.fillRect(node.col * scale, node.row * scale, scale, scale);
+  };
+
+  const drawBoard = (canvas: HTMLCanvasElement) => {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.fillStyle = '#0f172a'; // slate-950
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    grid.forEach(row => row.forEach(node => {
+      const terrain = Object.values(TERRAINS).find(t => t.weight === node.weight);
+      if (node.isWall) ctx.fillStyle = '#64748b'; // slate-500
+      else if (terrain) ctx.fillStyle = terrain.snapshotColor;
+      else return;
+      fillCell(ctx, node);
+    }));
+    drawEndpoints(ctx);
+  };
+
+  const drawEndpoints = (ctx: CanvasRenderingContext2D) => {
+    ctx.fillStyle = '#22c55e'; // green-500
+    fillCell(ctx, startPos);
+    ctx.fillStyle = '#ef4444'; // red-500
+    fillCell(ctx, finishPos);
+  };
+
+  const isEndpoint = (node: NodeData) =>
+    (node.row === startPos.row && node.col === startPos.col) || (node.row === finishPos.row && node.col === finishPos.col);
+
+  // Every racer advances by the same number of steps (one visited or path cell each), so the race is fair per expansion
+  const advanceTo = (currentRacers: Racer[], target: number) => {
+    const from = stepRef.current;
+    currentRacers.forEach((racer, i) => {
+      const ctx = canvasRefs.current[i]?.getContext('2d');
+      if (!ctx) return;
+      const total = racer.visited.length + racer.path.length;
+      for (let step = from; step < Math.min(target, total); step++) {
+        if (step < racer.visited.length) {
+          const node = racer.visited[step];
+          if (isEndpoint(node)) continue;
+          ctx.fillStyle = RACE_COLORS[i];
+          fillCell(ctx, node);
+        } else {
+          const node = racer.path[step - racer.visited.length];
+          if (isEndpoint(node)) continue;
+          ctx.fillStyle = '#f59e0b'; // amber-500
+          fillCell(ctx, node);
+        }
+      }
+      const visitedCount = Math.min(target, racer.visited.length);
+      const pathCount = Math.max(0, Math.min(target, total) - racer.visited.length);
+      const visitedEl = visitedCountRefs.current[i];
+      const pathEl = pathCountRefs.current[i];
+      if (visitedEl) visitedEl.innerText = visitedCount.toString();
+      if (pathEl) pathEl.innerText = pathCount.toString();
+    });
+    stepRef.current = target;
+  };
+
+  const startAnimation = (currentRacers: Racer[]) => {
+    const totalSteps = Math.max(...currentRacers.map(r => r.finishStep));
+    let lastTick = performance.now();
+    let budgetMs = 0;
+
+    const tick = (now: number) => {
+      budgetMs += (now - lastTick) * speedRef.current;
+      lastTick = now;
+      const steps = Math.floor(budgetMs / ANIMATION_SPEED_MS);
+      budgetMs -= steps * ANIMATION_SPEED_MS;
+      if (steps > 0) advanceTo(currentRacers, Math.min(totalSteps, stepRef.current + steps));
+
+      if (stepRef.current >= totalSteps) {
+        setStatus('finished');
+        return;
+      }
+      rafRef.current = requestAnimationFrame(tick);
+    };
+    rafRef.current = requestAnimationFrame(tick);
+  };
+
+  const startRace = async () => {
+    stopRace();
+    setError(null);
+    setRacers([]);
+    setStatus('computing');
+
+    const request = {
+      grid: serializeGrid(grid),
+      start: startPos,
+      finish: finishPos,
+      movement,
+      queueType,
+    };
+    const hasBoostCells = hasNegativeCosts(grid);
+    const isOutsideCostModel = (algorithm: AlgorithmType) => hasBoostCells && !handlesNegativeCosts(algorithm);
+    const runTimeoutsMs = selected.map(algorithm => getRunTimeoutMs(timeoutMs, isOutsideCostModel(algorithm)));
+    runsRef.current = selected.map((algorithm, i) => runAlgorithmInWorker({ ...request, algorithm }, { timeoutMs: runTimeoutsMs[i] }));
+    const outcomes = await Promise.all(runsRef.current.map(run => run.outcome));
+    runsRef.current = [];
+
+    for (let i = 0; i < outcomes.length; i++) {
+      const outcome = outcomes[i];
+      if (outcome.status === 'done') continue;
+      if (outcome.status === 'timeout') {
+        const hint = isOutsideCostModel(selected[i]) ? ` ${OUTSIDE_COST_MODEL_TIMEOUT_HINT}` : '';
+        setError(`${getAlgorithmLabel(selected[i])} timed out after ${runTimeoutsMs[i] / 1000}s.${hint}`);
+      }
+      if (outcome.status === 'error') setError(`${getAlgorithmLabel(selected[i])} failed: ${outcome.message}`);
+      setStatus('idle');
+      return;
+    }
+
+    const graph = createGridGraph(grid, movement);
+    const results: Racer[] = outcomes.flatMap((outcome, i) => {
+      if (outcome.status !== 'done') return [];
+      const visited = fromCellIndices(outcome.result.visited, grid);
+      const path = fromCellIndices(outcome.result.path, grid);
+      const optimalPath = fromCellIndices(outcome.result.optimalPath, grid);
+      const negativeCycle = fromCellIndices(outcome.result.negativeCycle, grid);
+      const pathCost = getPathCost(graph, path);
+      const validation = validateSearchResult(
+        graph,
+        [grid[startPos.row][startPos.col]],
+        [grid[finishPos.row][finishPos.col]],
+        { visitedNodesInOrder: visited, nodesInShortestPathOrder: path, negativeCycle, gaveUpAfter: outcome.result.gaveUpAfter ?? undefined },
+        optimalPath,
+        {
+          optimalNegativeCycle: fromCellIndices(outcome.result.optimalNegativeCycle, grid),
+          handlesNegativeCosts: handlesNegativeCosts(selected[i]),
+        }
+      );
+      return [{
+        algorithm: selected[i],
+        visited,
+        path,
+        pathCost,
+        isOptimal: validation.isValid,
+        validationError: validation.reason,
+        durationMs: outcome.result.durationMs,
+        finishStep: visited.length + path.length,
+      }];
+    });
+
+    // Render the mini-grids first, then paint their empty boards and start the clock
+    stepRef.current = 0;
+    flushSync(() => {
+      setRacers(results);
+      setStatus('racing');
+    });
+    canvasRefs.current.forEach(canvas => canvas && drawBoard(canvas));
+    startAnimation(results);
+  };
+
+  const skipToEnd = () => {
+    cancelAnimationFrame(rafRef.current);
+    advanceTo(racers, Math.max(...racers.map(r => r.finishStep)));
+    setStatus('finished');
+  };
+
+  const toggleAlgorithm = (type: AlgorithmType) => {
+    setSelected(prev => {
+      if (prev.includes(type)) return prev.filter(t => t !== type);
+      if (prev.length >= RACE_MAX_ALGORITHMS) return prev;
+      return [...prev, type];
+    });
+  };
+
+  if (!isOpen) return null;
+
+  // Wrong paths are disqualified; among the rest, the fewest expansions wins
+  const standings = [...racers].sort((a, b) => a.finishStep - b.finishStep);
+  const winner = racers
+    .filter(r => r.isOptimal)
+    .reduce<Racer | null>((best, r) => (!best || r.visited.length < best.visited.length ? r : best), null);
+  const fastestCompute = racers.reduce<Racer | null>((best, r) => (!best || r.durationMs < best.durationMs ? r : best), null);
+  const canStart = selected.length >= RACE_MIN_ALGORITHMS && status !== 'computing' && status !== 'racing';
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="bg-slate-900 border border-slate-700 rounded-xl shadow-2xl max-w-6xl w-full max-h-[90vh] overflow-hidden flex flex-col modal-animate"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="p-6 border-b border-slate-700 flex justify-between items-center bg-slate-800/50">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-indigo-500/20 rounded-lg text-indigo-400">
+              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M3 3v1.5M3 21v-6m0 0 2.77-.693a9 9 0 0 1 6.208.682l.108.054a9 9 0 0 0 6.086.71l3.114-.732a48.524 48.524 0 0 1-.005-10.499l-3.11.732a9 9 0 0 1-6.085-.711l-.108-.054a9 9 0 0 0-6.208-.682L3 4.5M3 15V4.5" />
+              </svg>
+            </div>
+            <h2 className="text-2xl font-bold text-white">Algorithm Race</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-white hover:bg-slate-800 p-2 rounded-lg transition-all"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="overflow-y-auto p-6 space-y-6 custom-scrollbar">
+          <div className="flex flex-wrap items-center gap-3">
+            {ALGORITHM_OPTIONS.map(({ type, label }) => (
+              <label
+                key={type}
+                className={`flex items-center gap-2 px-3 py-2 text-sm rounded-lg border transition-all cursor-pointer ${selected.includes(type) ? 'bg-indigo-600/20 border-indigo-500 text-indigo-200' : 'bg-slate-800 border-slate-700 text-slate-400'}`}
+              >
+                <input
+                  type="checkbox"
+                  checked={selected.includes(type)}
+                  onChange={() => toggleAlgorithm(type)}
+                  disabled={status === 'computing' || status === 'racing' || (!selected.includes(type) && selected.length >= RACE_MAX_ALGORITHMS)}
+                  className="accent-indigo-500"
+                />
+                {label}
+              </label>
+            ))}
+            <select
+              value={speed}
+              onChange={(e) => setSpeed(Number(e.target.value))}
+              title="Race speed"
+              className="bg-slate-800 text-slate-300 px-3 py-2 rounded-lg border border-slate-700 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              {PLAYBACK_SPEEDS.map(s => <option key={s} value={s}>{s}×</option>)}
+            </select>
+            {status === 'racing' ? (
+              <button
+                onClick={skipToEnd}
+                className="px-4 py-2 text-sm font-medium text-slate-300 bg-slate-800 rounded-lg hover:bg-slate-700 transition-all border border-slate-700"
+              >
+                Skip to End
+              </button>
+            ) : (
+              <button
+                onClick={startRace}
+                disabled={!canStart}
+                className="px-6 py-2 font-bold text-white bg-indigo-600 rounded-lg hover:bg-indigo-500 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {status === 'computing' ? 'Computing...' : status === 'finished' ? 'Race Again' : 'Start Race'}
+              </button>
+            )}
+            <span className="text-xs text-slate-500">Pick {RACE_MIN_ALGORITHMS}–{RACE_MAX_ALGORITHMS} algorithms. Each step every racer expands one node.</span>
+          </div>
+
+          {error && (
+            <div className="bg-rose-900/20 border border-rose-700/50 text-rose-300 text-sm p-3 rounded-xl">{error}</div>
+          )}
+
+          {racers.length > 0 && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {racers.map((racer, i) => (
+                <div key={racer.algorithm} className="bg-slate-800/40 rounded-xl p-4 border border-slate-700/50 flex flex-col items-center gap-3">
+                  <div className="w-full flex justify-between items-center">
+                    <h3 className="font-bold" style={{ color: RACE_COLORS[i] }}>{getAlgorithmLabel(racer.algorithm)}</h3>
+                    <div className="flex gap-3 text-xs font-mono text-slate-400">
+                      <span>Visited <span ref={el => { visitedCountRefs.current[i] = el; }} className="text-indigo-300 tabular-nums">0</span></span>
+                      <span>Path <span ref={el => { pathCountRefs.current[i] = el; }} className="text-amber-300 tabular-nums">0</span></span>
+                    </div>
+                  </div>
+                  <canvas
+                    ref={el => { canvasRefs.current[i] = el; }}
+                    width={cols * scale}
+                    height={rows * scale}
+                    className="rounded border border-slate-700 max-w-full"
+                    style={{ imageRendering: 'pixelated' }}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          {status === 'finished' && (
+            <div className="bg-slate-800/40 rounded-xl p-5 border border-slate-700/50">
+              <p className="text-lg font-bold text-white mb-1">
+                {winner ? <>🏆 {getAlgorithmLabel(winner.algorithm)} wins with {winner.visited.length} visited nodes</> : 'No racer found an optimal path'}
+              </p>
+              {fastestCompute && (
+                <p className="text-xs text-slate-400 mb-4">
+                  Fastest wall-clock compute: {getAlgorithmLabel(fastestCompute.algorithm)} ({fastestCompute.durationMs.toFixed(2)} ms). Non-optimal paths are disqualified.
+                </p>
+              )}
+              <table className="w-full text-left text-sm text-slate-400">
+                <thead className="text-xs text-slate-300 uppercase">
+                  <tr>
+                    <th className="px-3 py-2">#</th>
+                    <th className="px-3 py-2">Algorithm</th>
+                    <th className="px-3 py-2">Visited</th>
+                    <th className="px-3 py-2">Path</th>
+                    <th className="px-3 py-2">Cost</th>
+                    <th className="px-3 py-2">Compute</th>
+                    <th className="px-3 py-2">Optimal</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-700">
+                  {standings.map((racer, place) => (
+                    <tr key={racer.algorithm} className={racer === winner ? 'text-white' : ''}>
+                      <td className="px-3 py-2 font-mono">{place + 1}</td>
+                      <td className="px-3 py-2 font-medium" style={{ color: RACE_COLORS[racers.indexOf(racer)] }}>{getAlgorithmLabel(racer.algorithm)}</td>
+                      <td className="px-3 py-2 font-mono">{racer.visited.length}</td>
+                      <td className="px-3 py-2 font-mono">{racer.path.length}</td>
+                      <td className="px-3 py-2 font-mono">{Number(racer.pathCost.toFixed(2))}</td>
+                      <td className="px-3 py-2 font-mono">{racer.durationMs.toFixed(2)} ms</td>
+                      <td className="px-3 py-2">
+                        {racer.isOptimal ? <span className="text-emerald-400">Yes</span> : <span className="text-rose-400" title={racer.validationError ?? undefined}>No</span>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RaceModal;
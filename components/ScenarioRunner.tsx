@@ -0,0 +1,363 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AlgorithmType, GridLayout, MovingAiMap, MovingAiScenario, NodeData, PriorityQueueType, SerializedGrid } from '../types';
+import { ALGORITHM_OPTIONS, DEFAULT_NODE_WEIGHT, getAlgorithmLabel, MAX_GRID_DIMENSION } from '../constants';
+import { createGridGraph, getPathCost } from '../algorithms/gridGraph';
+import { isOpenCell, movingAiMapToLayout, parseMovingAiMap, parseMovingAiScenarios, scenarioMatchesMap } from '../layouts/movingAi';
+import { AlgorithmRun, runAlgorithmInWorker } from '../workers/algorithmRunner';
+import { deserializeGrid, fromCellIndices } from '../workers/serialization';
+
+interface ScenarioRunnerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onLoadLayout: (layout: GridLayout) => void;
+  queueType: PriorityQueueType;
+  timeoutMs: number;
+}
+
+type ScenarioStatus = 'match' | 'differs' | 'noPath' | 'failed';
+
+interface ScenarioOutcome {
+  status: ScenarioStatus;
+  cost: number;
+  message?: string;
+}
+
+interface ScenarioResult {
+  scenario: MovingAiScenario;
+  // Set when the scenario could not be run at all (e.g. an endpoint on impassable terrain)
+  skipped?: string;
+  outcomes: Partial<Record<AlgorithmType, ScenarioOutcome>>;
+}
+
+// The published optimal lengths are given to 8 decimals
+const LENGTH_TOLERANCE = 1e-4;
+
+const formatLength = (length: number) => Number(length.toFixed(4)).toString();
+
+const buttonClassName = "px-3 py-1.5 text-xs font-medium text-slate-300 bg-slate-800 rounded-lg hover:bg-slate-700 disabled:opacity-50 transition-all border border-slate-700";
+
+const ScenarioRunner: React.FC<ScenarioRunnerProps> = ({ isOpen, onClose, onLoadLayout, queueType, timeoutMs }) => {
+  const [map, setMap] = useState<MovingAiMap | null>(null);
+  const [scenarios, setScenarios] = useState<MovingAiScenario[]>([]);
+  const [selected, setSelected] = useState<AlgorithmType[]>(['dijkstra', 'astar']);
+  const [limit, setLimit] = useState(50);
+  const [results, setResults] = useState<ScenarioResult[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [onlyDifferences, setOnlyDifferences] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const activeRunRef = useRef<AlgorithmRun | null>(null);
+  const stopRequestedRef = useRef(false);
+
+  const stopRunning = () => {
+    stopRequestedRef.current = true;
+    activeRunRef.current?.cancel();
+  };
+
+  useEffect(() => {
+    if (!isOpen) stopRunning();
+  }, [isOpen]);
+
+  useEffect(() => stopRunning, []);
+
+  const fitsOnBoard = map !== null && map.rows <= MAX_GRID_DIMENSION && map.cols <= MAX_GRID_DIMENSION;
+  const mismatchedScenarios = map ? scenarios.filter(s => !scenarioMatchesMap(s, map)).length : 0;
+
+  const handleMapFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setMap(parseMovingAiMap(await file.text(), file.name));
+      setResults([]);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleScenarioFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setScenarios(parseMovingAiScenarios(await file.text(), file.name));
+      setResults([]);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const showOnBoard = (scenario?: MovingAiScenario) => {
+    if (!map || !fitsOnBoard) return;
+    let start = scenario?.start;
+    let finish = scenario?.goal;
+    if (!start || !finish) {
+      // No scenario picked: put the endpoints on the first and last open cells
+      const open = map.walls.indexOf(0);
+      const lastOpen = map.walls.lastIndexOf(0);
+      if (open === -1 || open === lastOpen) {
+        setError(`${map.name} has fewer than two open cells.`);
+        return;
+      }
+      start = { row: Math.floor(open / map.cols), col: open % map.cols };
+      finish = { row: Math.floor(lastOpen / map.cols), col: lastOpen % map.cols };
+    }
+    onLoadLayout(movingAiMapToLayout(map, start, finish));
+    onClose();
+  };
+
+  const runScenarios = async () => {
+    if (!map) return;
+    stopRequestedRef.current = false;
+    setIsRunning(true);
+    setError(null);
+    setResults([]);
+
+    const serialized: SerializedGrid = {
+      rows: map.rows,
+      cols: map.cols,
+      walls: map.walls,
+      weights: new Float64Array(map.rows * map.cols).fill(DEFAULT_NODE_WEIGHT),
+    };
+    // Paths come back as cell indices; costs are measured on a local copy of the board
+    const grid: NodeData[][] = deserializeGrid(serialized);
+    const graph = createGridGraph(grid, 'eightWayNoCornerCutting');
+
+    for (const scenario of scenarios.slice(0, limit)) {
+      if (stopRequestedRef.current) break;
+      const result: ScenarioResult = { scenario, outcomes: {} };
+
+      if (!scenarioMatchesMap(scenario, map)) {
+        result.skipped = `Scenario is for ${scenario.mapName} (${scenario.mapCols}×${scenario.mapRows})`;
+      } else if (!isOpenCell(map, scenario.start) || !isOpenCell(map, scenario.goal)) {
+        result.skipped = 'Start or goal is on impassable terrain';
+      } else {
+        for (const algorithm of selected) {
+          const run = runAlgorithmInWorker(
+            { grid: serialized, start: scenario.start, finish: scenario.goal, algorithm, movement: 'eightWayNoCornerCutting', queueType },
+            { timeoutMs }
+          );
+          activeRunRef.current = run;
+          const outcome = await run.outcome;
+          activeRunRef.current = null;
+
+          if (outcome.status === 'cancelled') break;
+          if (outcome.status !== 'done') {
+            const message = outcome.status === 'timeout' ? `Timed out after ${timeoutMs / 1000}s` : outcome.message;
+            result.outcomes[algorithm] = { status: 'failed', cost: 0, message };
+            continue;
+          }
+          if (outcome.result.gaveUpAfter !== null) {
+            result.outcomes[algorithm] = { status: 'failed', cost: 0, message: `Gave up after ${outcome.result.gaveUpAfter.toLocaleString()} expansions` };
+            continue;
+          }
+          const path = fromCellIndices(outcome.result.path, grid);
+          const cost = getPathCost(graph, path);
+          const status: ScenarioStatus = path.length === 0
+            ? 'noPath'
+            : Math.abs(cost - scenario.optimalLength) < LENGTH_TOLERANCE * Math.max(1, scenario.optimalLength) ? 'match' : 'differs';
+          result.outcomes[algorithm] = { status, cost };
+        }
+      }
+
+      if (stopRequestedRef.current) break;
+      setResults(prev => [...prev, result]);
+    }
+
+    setIsRunning(false);
+  };
+
+  const toggleAlgorithm = (type: AlgorithmType) => {
+    setSelected(prev => (prev.includes(type) ? prev.filter(t => t !== type) : [...prev, type]));
+  };
+
+  const summary = useMemo(() => selected.map(algorithm => {
+    const counts: Record<ScenarioStatus, number> = { match: 0, differs: 0, noPath: 0, failed: 0 };
+    results.forEach(result => {
+      const outcome = result.outcomes[algorithm];
+      if (outcome) counts[outcome.status]++;
+    });
+    return { algorithm, counts };
+  }), [results, selected]);
+
+  const isDifference = (result: ScenarioResult) =>
+    !!result.skipped || Object.values(result.outcomes).some(outcome => outcome && outcome.status !== 'match');
+  const visibleResults = onlyDifferences ? results.filter(isDifference) : results;
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="bg-slate-900 border border-slate-700 rounded-xl shadow-2xl max-w-5xl w-full max-h-[90vh] overflow-hidden flex flex-col modal-animate"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="p-6 border-b border-slate-700 flex justify-between items-center bg-slate-800/50">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-indigo-500/20 rounded-lg text-indigo-400">
+              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M9 6.75V15m6-6v8.25m.503 3.498 4.875-2.437c.381-.19.622-.58.622-1.006V4.82c0-.836-.88-1.38-1.628-1.006l-3.869 1.934c-.317.159-.69.159-1.006 0L9.503 3.252a1.125 1.125 0 0 0-1.006 0L3.622 5.689C3.24 5.88 3 6.27 3 6.695V19.18c0 .836.88 1.38 1.628 1.006l3.869-1.934c.317-.159.69-.159 1.006 0l4.994 2.497c.317.158.69.158 1.006 0Z" />
+              </svg>
+            </div>
+            <h2 className="text-2xl font-bold text-white">Moving AI Benchmarks</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-white hover:bg-slate-800 p-2 rounded-lg transition-all"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="overflow-y-auto p-6 space-y-5 custom-scrollbar">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <label className="bg-slate-800/40 rounded-xl p-4 border border-slate-700/50 flex flex-col gap-2 text-sm text-slate-400">
+              <span className="text-xs uppercase tracking-wider font-semibold">Map (.map)</span>
+              <input type="file" accept=".map" onChange={handleMapFile} disabled={isRunning} className="text-xs file:mr-3 file:px-3 file:py-1.5 file:rounded-lg file:border-0 file:bg-slate-700 file:text-slate-200" />
+              {map && (
+                <span className="font-mono text-xs text-slate-300">
+                  {map.name} · {map.cols}×{map.rows} · {map.walls.reduce((sum, wall) => sum + wall, 0)} blocked cells
+                </span>
+              )}
+            </label>
+            <label className="bg-slate-800/40 rounded-xl p-4 border border-slate-700/50 flex flex-col gap-2 text-sm text-slate-400">
+              <span className="text-xs uppercase tracking-wider font-semibold">Scenarios (.scen)</span>
+              <input type="file" accept=".scen" onChange={handleScenarioFile} disabled={isRunning} className="text-xs file:mr-3 file:px-3 file:py-1.5 file:rounded-lg file:border-0 file:bg-slate-700 file:text-slate-200" />
+              {scenarios.length > 0 && (
+                <span className="font-mono text-xs text-slate-300">
+                  {scenarios.length} scenarios · buckets 0–{Math.max(...scenarios.map(s => s.bucket))}
+                </span>
+              )}
+            </label>
+          </div>
+
+          {map && mismatchedScenarios > 0 && (
+            <div className="bg-amber-400/10 border border-amber-400/30 text-amber-300 text-sm p-3 rounded-xl">
+              {mismatchedScenarios} scenario{mismatchedScenarios === 1 ? ' is' : 's are'} for a different map or size and will be skipped.
+            </div>
+          )}
+          {map && !fitsOnBoard && (
+            <div className="bg-slate-800/60 border border-slate-700 text-slate-400 text-sm p-3 rounded-xl">
+              This map is larger than the {MAX_GRID_DIMENSION}×{MAX_GRID_DIMENSION} board, so it can be benchmarked here but not shown on the grid.
+            </div>
+          )}
+          {error && (
+            <div className="bg-rose-900/20 border border-rose-700/50 text-rose-300 text-sm p-3 rounded-xl">{error}</div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-3">
+            {ALGORITHM_OPTIONS.map(({ type, label }) => (
+              <label
+                key={type}
+                className={`flex items-center gap-2 px-3 py-2 text-sm rounded-lg border transition-all cursor-pointer ${selected.includes(type) ? 'bg-indigo-600/20 border-indigo-500 text-indigo-200' : 'bg-slate-800 border-slate-700 text-slate-400'}`}
+              >
+                <input type="checkbox" checked={selected.includes(type)} onChange={() => toggleAlgorithm(type)} disabled={isRunning} className="accent-indigo-500" />
+                {label}
+              </label>
+            ))}
+            <label className="flex items-center gap-2 text-sm text-slate-400">
+              First
+              <input
+                type="number"
+                min={1}
+                value={limit}
+                onChange={(e) => setLimit(Math.max(1, Math.floor(Number(e.target.value)) || 1))}
+                disabled={isRunning}
+                className="w-20 bg-slate-800 text-slate-200 px-2 py-1.5 rounded-lg border border-slate-700 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+              scenarios
+            </label>
+            {isRunning ? (
+              <button onClick={stopRunning} className="px-4 py-2 text-sm font-medium text-rose-300 bg-slate-800 rounded-lg hover:bg-rose-900/40 transition-all border border-rose-700/60">
+                Stop ({results.length}/{Math.min(limit, scenarios.length)})
+              </button>
+            ) : (
+              <button
+                onClick={runScenarios}
+                disabled={!map || scenarios.length === 0 || selected.length === 0}
+                className="px-6 py-2 font-bold text-white bg-indigo-600 rounded-lg hover:bg-indigo-500 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Run Scenarios
+              </button>
+            )}
+            <button onClick={() => showOnBoard()} disabled={!fitsOnBoard || isRunning} className={buttonClassName}>
+              Load Map onto Board
+            </button>
+          </div>
+          <p className="text-xs text-slate-500">Runs use 8-way movement without corner cutting, the rule the published optimal lengths are computed with.</p>
+
+          {results.length > 0 && (
+            <>
+              <div className="flex flex-wrap gap-3">
+                {summary.map(({ algorithm, counts }) => (
+                  <div key={algorithm} className="bg-slate-800/40 rounded-xl px-4 py-3 border border-slate-700/50 text-xs font-mono">
+                    <p className="font-sans font-bold text-indigo-300 text-sm mb-1">{getAlgorithmLabel(algorithm)}</p>
+                    <span className="text-emerald-400">{counts.match} optimal</span>
+                    {' · '}<span className="text-amber-400">{counts.differs} differ</span>
+                    {' · '}<span className="text-slate-400">{counts.noPath} no path</span>
+                    {counts.failed > 0 && <>{' · '}<span className="text-rose-400">{counts.failed} failed</span></>}
+                  </div>
+                ))}
+                <label className="flex items-center gap-2 text-sm text-slate-400 ml-auto">
+                  <input type="checkbox" checked={onlyDifferences} onChange={(e) => setOnlyDifferences(e.target.checked)} className="accent-indigo-500" />
+                  Only differences
+                </label>
+              </div>
+
+              <div className="bg-slate-800/50 rounded-xl border border-slate-700 overflow-x-auto">
+                <table className="w-full text-sm text-left text-slate-300 whitespace-nowrap">
+                  <thead className="text-xs text-slate-400 uppercase bg-slate-900/50 border-b border-slate-700">
+                    <tr>
+                      <th className="px-4 py-2">#</th>
+                      <th className="px-4 py-2">Bucket</th>
+                      <th className="px-4 py-2">Start</th>
+                      <th className="px-4 py-2">Goal</th>
+                      <th className="px-4 py-2">Optimum</th>
+                      {selected.map(algorithm => <th key={algorithm} className="px-4 py-2">{getAlgorithmLabel(algorithm)}</th>)}
+                      <th className="px-4 py-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-700">
+                    {visibleResults.map(({ scenario, skipped, outcomes }) => (
+                      <tr key={scenario.index} className="hover:bg-slate-800/80 transition-colors">
+                        <td className="px-4 py-2 font-mono text-slate-500">{scenario.index}</td>
+                        <td className="px-4 py-2 font-mono">{scenario.bucket}</td>
+                        <td className="px-4 py-2 font-mono text-xs">({scenario.start.col}, {scenario.start.row})</td>
+                        <td className="px-4 py-2 font-mono text-xs">({scenario.goal.col}, {scenario.goal.row})</td>
+                        <td className="px-4 py-2 font-mono">{formatLength(scenario.optimalLength)}</td>
+                        {skipped ? (
+                          <td colSpan={selected.length} className="px-4 py-2 text-xs text-slate-500">{skipped}</td>
+                        ) : selected.map(algorithm => {
+                          const outcome = outcomes[algorithm];
+                          if (!outcome) return <td key={algorithm} className="px-4 py-2 text-slate-600">-</td>;
+                          if (outcome.status === 'failed') return <td key={algorithm} className="px-4 py-2 text-xs text-rose-400">{outcome.message}</td>;
+                          if (outcome.status === 'noPath') return <td key={algorithm} className="px-4 py-2 text-xs text-slate-400">No path</td>;
+                          const delta = outcome.cost - scenario.optimalLength;
+                          return (
+                            <td key={algorithm} className={`px-4 py-2 font-mono ${outcome.status === 'match' ? 'text-emerald-400' : 'text-amber-400'}`}>
+                              {formatLength(outcome.cost)}
+                              {outcome.status === 'differs' && <span className="text-xs ml-1">({delta > 0 ? '+' : ''}{formatLength(delta)})</span>}
+                            </td>
+                          );
+                        })}
+                        <td className="px-4 py-2">
+                          <button onClick={() => showOnBoard(scenario)} disabled={!fitsOnBoard || isRunning} className={buttonClassName}>Show</button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScenarioRunner;
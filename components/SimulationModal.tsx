@@ -0,0 +1,430 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AlgorithmType, GridPosition, MovementMode, NodeData, Patrol, PriorityQueueType, ReplanLogEntry, ReplanReason } from '../types';
+import {
+  getAlgorithmLabel,
+  handlesNegativeCosts,
+  PLAYBACK_SPEEDS,
+  SIMULATION_DEFAULT_PATROL_COUNT,
+  SIMULATION_GRID_WIDTH_PX,
+  SIMULATION_LOG_LIMIT,
+  SIMULATION_MAX_TICKS,
+  SIMULATION_PATROL_COUNTS,
+  SIMULATION_TARGET_DRIFT_TICKS,
+  SIMULATION_TICK_MS,
+  TERRAINS,
+} from '../constants';
+import { getMoveCost, hasNegativeCosts } from '../algorithms/gridGraph';
+import {
+  createPatrols,
+  driftTarget,
+  findBlockedCell,
+  getPatrolPosition,
+  isSamePosition,
+  movePatrols,
+  serializeWithObstacles,
+} from '../simulation/dynamicBoard';
+import { AlgorithmRun, getRunTimeoutMs, OUTSIDE_COST_MODEL_TIMEOUT_HINT, runAlgorithmInWorker } from '../workers/algorithmRunner';
+
+interface SimulationModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  grid: NodeData[][];
+  startPos: GridPosition;
+  finishPos: GridPosition;
+  algorithm: AlgorithmType;
+  movement: MovementMode;
+  queueType: PriorityQueueType;
+  timeoutMs: number;
+}
+
+// Everything that moves, kept in a ref so the tick loop always sees the latest state
+interface World {
+  agent: GridPosition;
+  target: GridPosition;
+  patrols: Patrol[];
+  // Remaining path, starting at the agent's cell; empty when the last search found none
+  path: GridPosition[];
+  trail: GridPosition[];
+}
+
+interface Progress {
+  tick: number;
+  steps: number;
+  distance: number;
+  replans: number;
+}
+
+type SimulationStatus = 'idle' | 'running' | 'finished';
+
+const NO_PROGRESS: Progress = { tick: 0, steps: 0, distance: 0, replans: 0 };
+
+const REASON_LABELS: Record<ReplanReason, string> = {
+  start: 'Initial plan',
+  pathBlocked: 'Path blocked',
+  targetMoved: 'Target moved',
+  noPath: 'No path yet',
+};
+
+const formatPosition = (pos: GridPosition) => `(${pos.row}, ${pos.col})`;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const SimulationModal: React.FC<SimulationModalProps> = ({ isOpen, onClose, grid, startPos, finishPos, algorithm, movement, queueType, timeoutMs }) => {
+  const [patrolCount, setPatrolCount] = useState(SIMULATION_DEFAULT_PATROL_COUNT);
+  const [isTargetDrifting, setIsTargetDrifting] = useState(true);
+  const [speed, setSpeed] = useState(1);
+  const [status, setStatus] = useState<SimulationStatus>('idle');
+  const [log, setLog] = useState<ReplanLogEntry[]>([]);
+  const [progress, setProgress] = useState<Progress>(NO_PROGRESS);
+  const [result, setResult] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const worldRef = useRef<World | null>(null);
+  const speedRef = useRef(1);
+  const activeRunRef = useRef<AlgorithmRun | null>(null);
+  // Each run checks its own id, so a stopped loop never touches the state of the next one
+  const runIdRef = useRef(0);
+
+  const rows = grid.length;
+  const cols = grid[0]?.length ?? 0;
+  const scale = Math.max(1, Math.floor(SIMULATION_GRID_WIDTH_PX / Math.max(rows, cols)));
+
+  const stopSimulation = () => {
+    runIdRef.current++;
+    activeRunRef.current?.cancel();
+    activeRunRef.current = null;
+  };
+
+  useEffect(() => {
+    if (!isOpen) {
+      stopSimulation();
+      worldRef.current = null;
+      setStatus('idle');
+      setLog([]);
+      setProgress(NO_PROGRESS);
+      setResult(null);
+      setError(null);
+    }
+  }, [isOpen]);
+
+  useEffect(() => stopSimulation, []);
+
+  useEffect(() => {
+    speedRef.current = speed;
+  }, [speed]);
+
+  const draw = () => {
+    const ctx = canvasRef.current?.getContext('2d');
+    const world = worldRef.current;
+    if (!ctx || !world) return;
+    const fillCell = (pos: GridPosition) => ctx.fillRect(pos.col * scale, pos.row * scale, scale, scale);
+
+    ctx.fillStyle = '#0f172a'; // slate-950
+    ctx.fillRect(0, 0, cols * scale, rows * scale);
+    grid.forEach(row => row.forEach(node => {
+      const terrain = Object.values(TERRAINS).find(t => t.weight === node.weight);
+      if (node.isWall) ctx.fillStyle = '#64748b'; // slate-500
+      else if (terrain) ctx.fillStyle = terrain.snapshotColor;
+      else return;
+      fillCell(node);
+    }));
+
+    ctx.fillStyle = 'rgba(249, 115, 22, 0.18)'; // orange-500, faint
+    world.patrols.forEach(patrol => patrol.route.forEach(fillCell));
+    ctx.fillStyle = 'rgba(34, 197, 94, 0.25)'; // green-500, faint
+    world.trail.forEach(fillCell);
+    ctx.fillStyle = '#f59e0b'; // amber-500
+    world.path.slice(1, -1).forEach(fillCell);
+    ctx.fillStyle = '#f97316'; // orange-500
+    world.patrols.forEach(patrol => fillCell(getPatrolPosition(patrol)));
+    ctx.fillStyle = '#ef4444'; // red-500
+    fillCell(world.target);
+
+    ctx.fillStyle = '#22c55e'; // green-500
+    ctx.beginPath();
+    ctx.arc((world.agent.col + 0.5) * scale, (world.agent.row + 0.5) * scale, scale * 0.42, 0, Math.PI * 2);
+    ctx.fill();
+  };
+
+  const startSimulation = async () => {
+    stopSimulation();
+    const runId = runIdRef.current;
+    const isCurrent = () => runIdRef.current === runId;
+
+    const world: World = {
+      agent: startPos,
+      target: finishPos,
+      patrols: createPatrols(grid, patrolCount, [startPos, finishPos], Math.random),
+      path: [],
+      trail: [startPos],
+    };
+    worldRef.current = world;
+    const current: Progress = { ...NO_PROGRESS };
+    setStatus('running');
+    setLog([]);
+    setProgress(NO_PROGRESS);
+    setResult(null);
+    setError(null);
+    draw();
+
+    const isOutsideCostModel = hasNegativeCosts(grid) && !handlesNegativeCosts(algorithm);
+    const runTimeoutMs = getRunTimeoutMs(timeoutMs, isOutsideCostModel);
+
+    // Searches from the agent to the target around the obstacles where they stand; null when the run was stopped
+    const replan = async (tick: number, reason: ReplanReason, blockedAt?: GridPosition): Promise<GridPosition[] | null> => {
+      const obstacles = world.patrols.map(getPatrolPosition);
+      const run = runAlgorithmInWorker(
+        { grid: serializeWithObstacles(grid, obstacles), start: world.agent, finish: world.target, algorithm, movement, queueType },
+        { timeoutMs: runTimeoutMs }
+      );
+      activeRunRef.current = run;
+      const outcome = await run.outcome;
+      if (!isCurrent()) return null;
+      activeRunRef.current = null;
+      if (outcome.status === 'cancelled') return null;
+      if (outcome.status === 'timeout') {
+        const hint = isOutsideCostModel ? ` ${OUTSIDE_COST_MODEL_TIMEOUT_HINT}` : '';
+        throw new Error(`${getAlgorithmLabel(algorithm)} timed out after ${runTimeoutMs / 1000}s.${hint}`);
+      }
+      if (outcome.status === 'error') throw new Error(`${getAlgorithmLabel(algorithm)} failed: ${outcome.message}`);
+      if (outcome.result.gaveUpAfter !== null) {
+        throw new Error(`${getAlgorithmLabel(algorithm)} gave up after ${outcome.result.gaveUpAfter.toLocaleString()} expansions.`);
+      }
+
+      const path = outcome.result.path.map(index => ({ row: Math.floor(index / cols), col: index % cols }));
+      const entry: ReplanLogEntry = {
+        tick,
+        reason,
+        agent: world.agent,
+        target: world.target,
+        blockedAt,
+        pathLength: path.length,
+        visitedNodes: outcome.result.visited.length,
+        durationMs: outcome.result.durationMs,
+      };
+      current.replans++;
+      setLog(prev => [entry, ...prev].slice(0, SIMULATION_LOG_LIMIT));
+      return path;
+    };
+
+    const finish = (message: string) => {
+      setResult(message);
+      setStatus('finished');
+    };
+
+    try {
+      const firstPath = await replan(0, 'start');
+      if (!firstPath) return;
+      world.path = firstPath;
+      setProgress({ ...current });
+      draw();
+
+      while (current.tick < SIMULATION_MAX_TICKS) {
+        await wait(SIMULATION_TICK_MS / speedRef.current);
+        if (!isCurrent()) return;
+        current.tick++;
+
+        // The world moves first: patrols step along their routes, then the target may drift
+        world.patrols = movePatrols(world.patrols, [world.agent, world.target]);
+        const obstacles = world.patrols.map(getPatrolPosition);
+        let hasTargetMoved = false;
+        if (isTargetDrifting && current.tick % SIMULATION_TARGET_DRIFT_TICKS === 0) {
+          const target = driftTarget(grid, world.target, obstacles, Math.random);
+          hasTargetMoved = !isSamePosition(target, world.target);
+          world.target = target;
+        }
+
+        if (!isSamePosition(world.agent, world.target)) {
+          const blockedAt = findBlockedCell(world.path.slice(1), obstacles);
+          const reason: ReplanReason | null = hasTargetMoved ? 'targetMoved' : blockedAt ? 'pathBlocked' : world.path.length === 0 ? 'noPath' : null;
+          if (reason) {
+            const path = await replan(current.tick, reason, blockedAt ?? undefined);
+            if (!path) return;
+            world.path = path;
+          }
+
+          // Then the agent takes one step; with no path it waits where it is
+          if (world.path.length > 1) {
+            const next = world.path[1];
+            current.steps++;
+            current.distance += getMoveCost(grid[world.agent.row][world.agent.col], grid[next.row][next.col]);
+            world.agent = next;
+            world.path = world.path.slice(1);
+            world.trail.push(next);
+          }
+        }
+
+        setProgress({ ...current });
+        draw();
+        if (isSamePosition(world.agent, world.target)) {
+          finish(`Caught the target at tick ${current.tick}.`);
+          return;
+        }
+      }
+      finish(`Called off after ${SIMULATION_MAX_TICKS} ticks without catching the target.`);
+    } catch (e) {
+      if (!isCurrent()) return;
+      setError(e instanceof Error ? e.message : String(e));
+      setStatus('finished');
+    }
+  };
+
+  const stop = () => {
+    stopSimulation();
+    setResult('Stopped.');
+    setStatus('finished');
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="bg-slate-900 border border-slate-700 rounded-xl shadow-2xl max-w-6xl w-full max-h-[90vh] overflow-hidden flex flex-col modal-animate"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="p-6 border-b border-slate-700 flex justify-between items-center bg-slate-800/50">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-emerald-500/20 rounded-lg text-emerald-400">
+              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M16.023 9.348h4.992v-.001M2.985 19.644v-4.992m0 0h4.992m-4.993 0 3.181 3.183a8.25 8.25 0 0 0 13.803-3.7M4.031 9.865a8.25 8.25 0 0 1 13.803-3.7l3.181 3.182m0-4.991v4.99" />
+              </svg>
+            </div>
+            <div>
+              <h2 className="text-2xl font-bold text-white">Dynamic Simulation</h2>
+              <p className="text-xs text-slate-400">Replanning with {getAlgorithmLabel(algorithm)}. Waypoints and extra endpoints are left out.</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-white hover:bg-slate-800 p-2 rounded-lg transition-all"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="overflow-y-auto p-6 space-y-6 custom-scrollbar">
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="flex items-center gap-2 text-sm text-slate-300">
+              Patrols
+              <select
+                value={patrolCount}
+                onChange={(e) => setPatrolCount(Number(e.target.value))}
+                disabled={status === 'running'}
+                className="bg-slate-800 text-slate-300 px-3 py-2 rounded-lg border border-slate-700 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50"
+              >
+                {SIMULATION_PATROL_COUNTS.map(count => <option key={count} value={count}>{count}</option>)}
+              </select>
+            </label>
+            <label className="flex items-center gap-2 text-sm text-slate-300">
+              <input
+                type="checkbox"
+                checked={isTargetDrifting}
+                onChange={(e) => setIsTargetDrifting(e.target.checked)}
+                disabled={status === 'running'}
+                className="accent-indigo-500"
+              />
+              Target drifts
+            </label>
+            <select
+              value={speed}
+              onChange={(e) => setSpeed(Number(e.target.value))}
+              title="Simulation speed"
+              className="bg-slate-800 text-slate-300 px-3 py-2 rounded-lg border border-slate-700 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              {PLAYBACK_SPEEDS.map(s => <option key={s} value={s}>{s}×</option>)}
+            </select>
+            {status === 'running' ? (
+              <button
+                onClick={stop}
+                className="px-4 py-2 text-sm font-medium text-slate-300 bg-slate-800 rounded-lg hover:bg-slate-700 transition-all border border-slate-700"
+              >
+                Stop
+              </button>
+            ) : (
+              <button
+                onClick={startSimulation}
+                className="px-6 py-2 font-bold text-white bg-indigo-600 rounded-lg hover:bg-indigo-500 transition-all"
+              >
+                {status === 'finished' ? 'Run Again' : 'Start Simulation'}
+              </button>
+            )}
+            <span className="text-xs text-slate-500">
+              One cell per tick. The target drifts every {SIMULATION_TARGET_DRIFT_TICKS} ticks; the agent replans when it moves or an obstacle steps onto the path.
+            </span>
+          </div>
+
+          {error && (
+            <div className="bg-rose-900/20 border border-rose-700/50 text-rose-300 text-sm p-3 rounded-xl">{error}</div>
+          )}
+
+          <div className="flex flex-col lg:flex-row gap-4">
+            <div className="bg-slate-800/40 rounded-xl p-4 border border-slate-700/50 flex flex-col items-center gap-3">
+              <div className="w-full flex flex-wrap gap-x-4 gap-y-1 text-xs font-mono text-slate-400">
+                <span>Tick <span className="text-slate-200 tabular-nums">{progress.tick}</span></span>
+                <span>Replans <span className="text-indigo-300 tabular-nums">{progress.replans}</span></span>
+                <span>Travelled <span className="text-emerald-300 tabular-nums">{progress.steps}</span> cells, cost <span className="text-emerald-300 tabular-nums">{Number(progress.distance.toFixed(2))}</span></span>
+              </div>
+              <canvas
+                ref={canvasRef}
+                width={cols * scale}
+                height={rows * scale}
+                className="rounded border border-slate-700 max-w-full"
+                style={{ imageRendering: 'pixelated' }}
+              />
+              <div className="flex flex-wrap gap-4 text-xs text-slate-400">
+                <span className="flex items-center gap-1.5"><span className="w-3 h-3 rounded-full bg-green-500"></span>Agent</span>
+                <span className="flex items-center gap-1.5"><span className="w-3 h-3 rounded-sm bg-red-500"></span>Target</span>
+                <span className="flex items-center gap-1.5"><span className="w-3 h-3 rounded-sm bg-orange-500"></span>Obstacle (route faint)</span>
+                <span className="flex items-center gap-1.5"><span className="w-3 h-3 rounded-sm bg-amber-500"></span>Planned path</span>
+              </div>
+              {result && <p className="text-sm font-medium text-white">{result}</p>}
+            </div>
+
+            <div className="flex-1 min-w-0 bg-slate-800/40 rounded-xl border border-slate-700/50 overflow-hidden flex flex-col">
+              <div className="px-4 py-3 border-b border-slate-700/50 text-xs uppercase tracking-wider font-semibold text-slate-400">Replan Log</div>
+              <div className="overflow-y-auto max-h-[50vh] custom-scrollbar">
+                {log.length === 0 ? (
+                  <p className="px-4 py-6 text-center text-sm text-slate-500">Replans will be listed here, newest first.</p>
+                ) : (
+                  <table className="w-full text-left text-xs text-slate-400">
+                    <thead className="text-slate-300 uppercase">
+                      <tr>
+                        <th className="px-3 py-2">Tick</th>
+                        <th className="px-3 py-2">Reason</th>
+                        <th className="px-3 py-2">From → To</th>
+                        <th className="px-3 py-2">Path</th>
+                        <th className="px-3 py-2">Visited</th>
+                        <th className="px-3 py-2">Compute</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-700">
+                      {log.map((entry, i) => (
+                        <tr key={`${entry.tick}-${i}`}>
+                          <td className="px-3 py-1.5 font-mono">{entry.tick}</td>
+                          <td className="px-3 py-1.5">
+                            {REASON_LABELS[entry.reason]}
+                            {entry.blockedAt && <span className="text-slate-500"> at {formatPosition(entry.blockedAt)}</span>}
+                          </td>
+                          <td className="px-3 py-1.5 font-mono">{formatPosition(entry.agent)} → {formatPosition(entry.target)}</td>
+                          <td className="px-3 py-1.5 font-mono">{entry.pathLength > 0 ? entry.pathLength : <span className="text-rose-400">none</span>}</td>
+                          <td className="px-3 py-1.5 font-mono">{entry.visitedNodes}</td>
+                          <td className="px-3 py-1.5 font-mono">{entry.durationMs.toFixed(2)} ms</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SimulationModal;
@@ -1,8 +1,113 @@
-export const GRID_ROWS = 25;
-export const GRID_COLS = 50;
+import { AlgorithmType, DrawingTool, GridSize, IncrementalAlgorithmType, MultiEndpointAlgorithmType, NegativeCostAlgorithmType, TerrainDefinition, TerrainType } from './types';
+
+export const DEFAULT_GRID_ROWS = 25;
+export const DEFAULT_GRID_COLS = 50;
+export const MIN_GRID_DIMENSION = 5;
+export const MAX_GRID_DIMENSION = 200;
+export const GRID_SIZE_PRESETS: GridSize[] = [
+  { rows: 10, cols: 10 },
+  { rows: DEFAULT_GRID_ROWS, cols: DEFAULT_GRID_COLS },
+  { rows: 50, cols: 100 },
+  { rows: 100, cols: 100 },
+  { rows: 200, cols: 200 },
+];
+// Cells shrink on larger grids so the board stays roughly this wide
+export const GRID_TARGET_WIDTH_PX = 1200;
+export const MAX_CELL_SIZE_PX = 24;
+export const MIN_CELL_SIZE_PX = 5;
 export const DEFAULT_START_ROW = 12;
 export const DEFAULT_START_COL = 10;
 export const DEFAULT_FINISH_ROW = 12;
 export const DEFAULT_FINISH_COL = 40;
 export const ANIMATION_SPEED_MS = 10;
-export const SHORTEST_PATH_SPEED_MS = 30;
\ No newline at end of file
+export const SHORTEST_PATH_SPEED_MS = 30;
+export const MAZE_ANIMATION_SPEED_MS = 5;
+// Held at the end of each iterative-deepening iteration before the board clears for the next
+export const ITERATION_PAUSE_MS = 400;
+// 0 disables the limit
+export const ALGORITHM_TIMEOUT_OPTIONS_MS = [5000, 10000, 30000, 60000, 0];
+export const DEFAULT_ALGORITHM_TIMEOUT_MS = 30000;
+// Limit for algorithms that assume non-negative costs on boards with boost cells, where some never finish
+export const NEGATIVE_COST_RUN_TIMEOUT_MS = 5000;
+export const PLAYBACK_SPEEDS = [0.25, 0.5, 1, 2, 4, 10];
+export const RACE_MIN_ALGORITHMS = 2;
+export const RACE_MAX_ALGORITHMS = 4;
+export const RACE_GRID_WIDTH_PX = 400;
+// Visited-cell colour of each race lane, in lane order
+export const RACE_COLORS = ['#6366f1', '#10b981', '#ec4899', '#06b6d4'];
+// Dynamic simulation: the agent moves one cell per tick, the target drifts one cell every few ticks
+export const SIMULATION_TICK_MS = 150;
+export const SIMULATION_TARGET_DRIFT_TICKS = 4;
+// A chase that has not ended by then is called off
+export const SIMULATION_MAX_TICKS = 1000;
+export const SIMULATION_PATROL_COUNTS = [0, 2, 4, 6, 8];
+export const SIMULATION_DEFAULT_PATROL_COUNT = 4;
+export const SIMULATION_GRID_WIDTH_PX = 800;
+// Only the latest replans are listed; the count covers all of them
+export const SIMULATION_LOG_LIMIT = 200;
+export const DEFAULT_NODE_WEIGHT = 1;
+// Oldest undo steps are dropped beyond this
+export const UNDO_HISTORY_LIMIT = 100;
+// Brush radius in cells (0 paints a single cell)
+export const BRUSH_RADII = [0, 1, 2, 3, 5];
+export const DRAWING_TOOLS: { tool: DrawingTool; label: string }[] = [
+  { tool: 'draw', label: 'Draw' },
+  { tool: 'erase', label: 'Erase' },
+  { tool: 'line', label: 'Line' },
+  { tool: 'rectangle', label: 'Rect' },
+  { tool: 'hollowRectangle', label: 'Frame' },
+  { tool: 'fill', label: 'Fill' },
+  { tool: 'waypoint', label: 'Waypoint' },
+  { tool: 'extraStart', label: '+ Start' },
+  { tool: 'extraFinish', label: '+ Finish' },
+];
+
+// Waypoint legs cycle through this many visited/path shades (see .node-visited-leg-N in index.html)
+export const LEG_SHADE_COUNT = 4;
+// Unordered waypoints are ordered exactly (Held–Karp) up to this many, by nearest neighbour + 2-opt beyond
+export const HELD_KARP_MAX_WAYPOINTS = 12;
+
+// Traversal cost of entering a cell of each terrain type (plain cells cost DEFAULT_NODE_WEIGHT)
+export const TERRAINS: Record<TerrainType, TerrainDefinition> = {
+  forest: { label: 'Forest', weight: 3, className: 'bg-emerald-900 border-emerald-800', snapshotColor: '#064e3b' },
+  mud: { label: 'Mud', weight: 5, className: 'bg-amber-900 border-amber-800', snapshotColor: '#78350f' },
+  water: { label: 'Water', weight: 10, className: 'bg-sky-900 border-sky-800', snapshotColor: '#0c4a6e' },
+  // Negative cost: only Bellman–Ford and SPFA handle it. Two adjacent boosts form a negative cycle.
+  boost: { label: 'Boost', weight: -1, className: 'bg-fuchsia-950 border-fuchsia-900', snapshotColor: '#4a044e' },
+};
+
+// Every weight a cell can carry: plain cells plus what each terrain brush paints
+export const TERRAIN_WEIGHTS = [DEFAULT_NODE_WEIGHT, ...Object.values(TERRAINS).map(terrain => terrain.weight)];
+
+// Every algorithm in picker order: `label` is the short name for stats, tables and compact pickers,
+// `name` the full one for the main algorithm picker
+export const ALGORITHM_OPTIONS: { type: AlgorithmType; label: string; name: string }[] = [
+  { type: 'dijkstra', label: "Dijkstra's", name: "Dijkstra's Algorithm" },
+  { type: 'astar', label: 'A* Search', name: 'A* Search' },
+  { type: 'greedyBfs', label: 'Greedy BFS', name: 'Greedy Best-First Search' },
+  { type: 'bidirectionalSwarm', label: 'Bi-Direct Swarm', name: 'Bidirectional Swarm' },
+  { type: 'bmssp', label: 'BMSSP', name: "BMSSP (Duan et al. '25)" },
+  { type: 'bfs', label: 'BFS', name: 'Breadth-First Search' },
+  { type: 'dfs', label: 'DFS', name: 'Depth-First Search' },
+  { type: 'jps', label: 'Jump Point', name: 'Jump Point Search' },
+  { type: 'bellmanFord', label: 'Bellman–Ford', name: 'Bellman–Ford' },
+  { type: 'spfa', label: 'SPFA', name: 'SPFA (Shortest Path Faster)' },
+  { type: 'idaStar', label: 'IDA*', name: 'IDA* (Iterative-Deepening A*)' },
+  { type: 'iddfs', label: 'IDDFS', name: 'Iterative-Deepening DFS' },
+  { type: 'lpaStar', label: 'LPA*', name: 'LPA* (Lifelong Planning A*)' },
+  { type: 'dStarLite', label: 'D* Lite', name: 'D* Lite' },
+];
+
+export const getAlgorithmLabel = (type: AlgorithmType) => ALGORITHM_OPTIONS.find(a => a.type === type)?.label ?? type;
+
+// Keyed by MultiEndpointAlgorithmType like MULTI_ENDPOINT_ALGORITHMS in algorithms/registry.ts (which the UI thread
+// doesn't load), so the compiler rejects either table the moment it misses or adds a type
+const MULTI_ENDPOINT_ALGORITHM_FLAGS: Record<MultiEndpointAlgorithmType, true> = { dijkstra: true, bmssp: true, bellmanFord: true, spfa: true };
+export const MULTI_ENDPOINT_ALGORITHM_TYPES = Object.keys(MULTI_ENDPOINT_ALGORITHM_FLAGS) as MultiEndpointAlgorithmType[];
+export const NEGATIVE_COST_ALGORITHM_TYPES: NegativeCostAlgorithmType[] = ['bellmanFord', 'spfa'];
+export const INCREMENTAL_ALGORITHM_TYPES: IncrementalAlgorithmType[] = ['lpaStar', 'dStarLite'];
+
+export const handlesNegativeCosts = (type: AlgorithmType) => NEGATIVE_COST_ALGORITHM_TYPES.some(negativeCostType => negativeCostType === type);
+
+export const isMultiEndpointAlgorithm = (type: AlgorithmType): type is MultiEndpointAlgorithmType =>
+  Object.prototype.hasOwnProperty.call(MULTI_ENDPOINT_ALGORITHM_FLAGS, type);
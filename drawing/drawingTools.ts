@@ -0,0 +1,116 @@
+import { CellPaint, GridPosition, NodeData } from '../types';
+
+/**
+ * Cell geometry for the drawing tools. Everything here returns positions only;
+ * PathfindingVisualizer decides what to paint on them.
+ */
+
+const key = (pos: GridPosition) => `${pos.row}-${pos.col}`;
+
+const dedupe = (cells: GridPosition[]): GridPosition[] => {
+  const seen = new Set<string>();
+  return cells.filter(cell => {
+    const id = key(cell);
+    if (seen.has(id)) return false;
+    seen.add(id);
+    return true;
+  });
+};
+
+const inBounds = (pos: GridPosition, rows: number, cols: number) =>
+  pos.row >= 0 && pos.row < rows && pos.col >= 0 && pos.col < cols;
+
+// Round brush: every cell within `radius` (Euclidean) of the centre; radius 0 is the single cell
+export const getBrushCells = (center: GridPosition, radius: number, rows: number, cols: number): GridPosition[] => {
+  const cells: GridPosition[] = [];
+  for (let dRow = -radius; dRow <= radius; dRow++) {
+    for (let dCol = -radius; dCol <= radius; dCol++) {
+      if (dRow * dRow + dCol * dCol > radius * radius + radius) continue;
+      const cell = { row: center.row + dRow, col: center.col + dCol };
+      if (inBounds(cell, rows, cols)) cells.push(cell);
+    }
+  }
+  return cells;
+};
+
+// Stamps the brush on every cell of a shape
+export const applyBrush = (cells: GridPosition[], radius: number, rows: number, cols: number): GridPosition[] =>
+  radius === 0 ? cells : dedupe(cells.flatMap(cell => getBrushCells(cell, radius, rows, cols)));
+
+// Bresenham line, both endpoints included
+export const getLineCells = (from: GridPosition, to: GridPosition): GridPosition[] => {
+  const cells: GridPosition[] = [];
+  const dRow = Math.abs(to.row - from.row);
+  const dCol = Math.abs(to.col - from.col);
+  const stepRow = from.row < to.row ? 1 : -1;
+  const stepCol = from.col < to.col ? 1 : -1;
+  let error = dCol - dRow;
+  let { row, col } = from;
+
+  while (true) {
+    cells.push({ row, col });
+    if (row === to.row && col === to.col) break;
+    const doubled = 2 * error;
+    if (doubled > -dRow) {
+      error -= dRow;
+      col += stepCol;
+    }
+    if (doubled < dCol) {
+      error += dCol;
+      row += stepRow;
+    }
+  }
+  return cells;
+};
+
+export const getRectangleCells = (from: GridPosition, to: GridPosition, filled: boolean): GridPosition[] => {
+  const top = Math.min(from.row, to.row);
+  const bottom = Math.max(from.row, to.row);
+  const left = Math.min(from.col, to.col);
+  const right = Math.max(from.col, to.col);
+  const cells: GridPosition[] = [];
+  for (let row = top; row <= bottom; row++) {
+    for (let col = left; col <= right; col++) {
+      if (filled || row === top || row === bottom || col === left || col === right) cells.push({ row, col });
+    }
+  }
+  return cells;
+};
+
+// 4-connected region of cells that look like the origin (same wall state and terrain)
+export const getFloodFillCells = (grid: NodeData[][], origin: GridPosition): GridPosition[] => {
+  const target = grid[origin.row][origin.col];
+  const matches = (node: NodeData) => node.isWall === target.isWall && node.weight === target.weight;
+  const rows = grid.length;
+  const cols = grid[0].length;
+  const seen = new Uint8Array(rows * cols);
+  const cells: GridPosition[] = [];
+  const stack: GridPosition[] = [origin];
+  seen[origin.row * cols + origin.col] = 1;
+
+  while (stack.length > 0) {
+    const cell = stack.pop()!;
+    cells.push(cell);
+    for (const [dRow, dCol] of [[-1, 0], [1, 0], [0, -1], [0, 1]]) {
+      const next = { row: cell.row + dRow, col: cell.col + dCol };
+      if (!inBounds(next, rows, cols) || seen[next.row * cols + next.col]) continue;
+      seen[next.row * cols + next.col] = 1;
+      if (matches(grid[next.row][next.col])) stack.push(next);
+    }
+  }
+  return cells;
+};
+
+// Returns the same grid when nothing changes, so callers can tell a no-op stroke from an edit
+export const paintCells = (grid: NodeData[][], cells: GridPosition[], paint: CellPaint): NodeData[][] => {
+  let newGrid: NodeData[][] | null = null;
+  for (const { row, col } of cells) {
+    const node = (newGrid ?? grid)[row][col];
+    if (node.isStart || node.isFinish || node.waypointNumber !== null) continue;
+    if (node.isWall === paint.isWall && node.weight === paint.weight) continue;
+    if (!newGrid) newGrid = grid.slice();
+    if (newGrid[row] === grid[row]) newGrid[row] = grid[row].slice();
+    newGrid[row][col] = { ...node, isWall: paint.isWall, weight: paint.weight };
+  }
+  return newGrid ?? grid;
+};
@@ -0,0 +1,242 @@
+import { AlgorithmType, BoardMarkers, GridPosition, NodeData, SharedBoard } from '../types';
+import { ALGORITHM_OPTIONS, DEFAULT_NODE_WEIGHT, isMultiEndpointAlgorithm, MAX_GRID_DIMENSION, MIN_GRID_DIMENSION, TERRAIN_WEIGHTS } from '../constants';
+
+/**
+ * Board state in the URL hash, e.g. `#b=2.25x50.12,10.12,40.astar.<walls>.<terrain>.<markers>`:
+ * format version, size, start, finish, algorithm, then three base64url sections of LEB128 varints:
+ * - walls: alternating open/wall run lengths, starting with open cells
+ * - terrain: (run length, zigzag-encoded weight) pairs covering every cell
+ * - markers: waypoints, extra starts and extra finishes, each as a count followed by cell indices
+ * Version 1 links (no terrain or marker sections) still open.
+ */
+
+const HASH_KEY = 'b';
+const FORMAT_VERSION = '2';
+const WALLS_ONLY_VERSION = '1';
+
+const toBase64Url = (bytes: number[]): string =>
+  btoa(bytes.map(byte => String.fromCharCode(byte)).join('')).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (text: string): number[] => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Array.from(binary, char => char.charCodeAt(0));
+};
+
+const pushVarint = (bytes: number[], value: number) => {
+  while (value >= 0x80) {
+    bytes.push((value & 0x7f) | 0x80);
+    value >>>= 7;
+  }
+  bytes.push(value);
+};
+
+// Reads varints one at a time; null once the bytes run out or a varint is malformed
+const createVarintReader = (bytes: number[]) => {
+  let i = 0;
+  return {
+    isDone: () => i >= bytes.length,
+    next: (): number | null => {
+      let value = 0;
+      let shift = 0;
+      let byte: number;
+      do {
+        if (i >= bytes.length || shift > 28) return null;
+        byte = bytes[i++];
+        value |= (byte & 0x7f) << shift;
+        shift += 7;
+      } while (byte & 0x80);
+      return value >>> 0;
+    },
+  };
+};
+
+// Zigzag keeps small negative weights (boost) to a single byte
+const toZigzag = (value: number) => (value << 1) ^ (value >> 31);
+const fromZigzag = (value: number) => (value >>> 1) ^ -(value & 1);
+
+// Run-length encodes one value per cell; each run is written by `pushRun`
+const encodeRuns = <T>(grid: NodeData[][], valueOf: (node: NodeData) => T, pushRun: (bytes: number[], value: T, run: number) => void): number[] => {
+  const bytes: number[] = [];
+  let current = valueOf(grid[0][0]);
+  let run = 0;
+  for (const row of grid) {
+    for (const node of row) {
+      const value = valueOf(node);
+      if (value === current) {
+        run++;
+      } else {
+        pushRun(bytes, current, run);
+        current = value;
+        run = 1;
+      }
+    }
+  }
+  pushRun(bytes, current, run);
+  return bytes;
+};
+
+const encodeWalls = (grid: NodeData[][]): number[] => {
+  // Wall runs alternate starting with open cells, so a board that opens on a wall starts with an empty run
+  const bytes = grid[0][0].isWall ? [0] : [];
+  return bytes.concat(encodeRuns(grid, node => node.isWall, (out, _, run) => pushVarint(out, run)));
+};
+
+const encodeTerrain = (grid: NodeData[][]): number[] =>
+  encodeRuns(grid, node => node.weight, (out, weight, run) => {
+    pushVarint(out, run);
+    pushVarint(out, toZigzag(weight));
+  });
+
+const encodeMarkers = (markers: BoardMarkers, cols: number): number[] => {
+  const bytes: number[] = [];
+  for (const list of [markers.waypoints, markers.extraStarts, markers.extraFinishes]) {
+    pushVarint(bytes, list.length);
+    list.forEach(pos => pushVarint(bytes, pos.row * cols + pos.col));
+  }
+  return bytes;
+};
+
+const decodeWalls = (bytes: number[], cellCount: number): number[] | null => {
+  const reader = createVarintReader(bytes);
+  const walls: number[] = [];
+  let index = 0;
+  let isWall = false;
+  while (!reader.isDone()) {
+    const run = reader.next();
+    if (run === null || index + run > cellCount) return null;
+    if (isWall) {
+      for (let j = 0; j < run; j++) walls.push(index + j);
+    }
+    index += run;
+    isWall = !isWall;
+  }
+  return index === cellCount ? walls : null;
+};
+
+const decodeTerrain = (bytes: number[], cellCount: number): [number, number][] | null => {
+  const reader = createVarintReader(bytes);
+  const terrain: [number, number][] = [];
+  let index = 0;
+  while (!reader.isDone()) {
+    const run = reader.next();
+    const zigzag = reader.next();
+    if (run === null || zigzag === null || index + run > cellCount) return null;
+    const weight = fromZigzag(zigzag);
+    if (!TERRAIN_WEIGHTS.includes(weight)) return null;
+    if (weight !== DEFAULT_NODE_WEIGHT) {
+      for (let j = 0; j < run; j++) terrain.push([index + j, weight]);
+    }
+    index += run;
+  }
+  return index === cellCount ? terrain : null;
+};
+
+const decodeMarkers = (bytes: number[], cols: number, cellCount: number): BoardMarkers | null => {
+  const reader = createVarintReader(bytes);
+  const readList = (): GridPosition[] | null => {
+    const count = reader.next();
+    if (count === null || count > cellCount) return null;
+    const list: GridPosition[] = [];
+    for (let i = 0; i < count; i++) {
+      const index = reader.next();
+      if (index === null || index >= cellCount) return null;
+      list.push({ row: Math.floor(index / cols), col: index % cols });
+    }
+    return list;
+  };
+  const waypoints = readList();
+  const extraStarts = readList();
+  const extraFinishes = readList();
+  if (!waypoints || !extraStarts || !extraFinishes || !reader.isDone()) return null;
+  return { waypoints, extraStarts, extraFinishes };
+};
+
+export const encodeBoardHash = (
+  grid: NodeData[][],
+  start: GridPosition,
+  finish: GridPosition,
+  markers: BoardMarkers,
+  algorithm: AlgorithmType
+): string => {
+  const rows = grid.length;
+  const cols = grid[0].length;
+  const parts = [
+    FORMAT_VERSION,
+    `${rows}x${cols}`,
+    `${start.row},${start.col}`,
+    `${finish.row},${finish.col}`,
+    algorithm,
+    toBase64Url(encodeWalls(grid)),
+    toBase64Url(encodeTerrain(grid)),
+    toBase64Url(encodeMarkers(markers, cols)),
+  ];
+  return `${HASH_KEY}=${parts.join('.')}`;
+};
+
+// Returns null for anything that isn't a well-formed board hash, so a bad link just opens the default board
+export const decodeBoardHash = (hash: string): SharedBoard | null => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const value = params.get(HASH_KEY);
+  if (!value) return null;
+
+  const [version, size, start, finish, algorithm, walls, terrain, markers, ...rest] = value.split('.');
+  if (walls === undefined || rest.length > 0) return null;
+  if (version === WALLS_ONLY_VERSION) {
+    if (terrain !== undefined) return null;
+  } else if (version !== FORMAT_VERSION || markers === undefined) {
+    return null;
+  }
+
+  const [rows, cols] = size.split('x').map(Number);
+  const [startRow, startCol] = start.split(',').map(Number);
+  const [finishRow, finishCol] = finish.split(',').map(Number);
+  const isDimension = (n: number) => Number.isInteger(n) && n >= MIN_GRID_DIMENSION && n <= MAX_GRID_DIMENSION;
+  const isInside = (row: number, col: number) => Number.isInteger(row) && Number.isInteger(col) && row >= 0 && row < rows && col >= 0 && col < cols;
+  if (!isDimension(rows) || !isDimension(cols) || !isInside(startRow, startCol) || !isInside(finishRow, finishCol)) return null;
+  if (startRow === finishRow && startCol === finishCol) return null;
+  if (!ALGORITHM_OPTIONS.some(option => option.type === algorithm)) return null;
+
+  const cellCount = rows * cols;
+  let wallIndices: number[] | null;
+  let terrainCells: [number, number][] | null = [];
+  let boardMarkers: BoardMarkers | null = { waypoints: [], extraStarts: [], extraFinishes: [] };
+  try {
+    wallIndices = decodeWalls(fromBase64Url(walls), cellCount);
+    if (version === FORMAT_VERSION) {
+      terrainCells = decodeTerrain(fromBase64Url(terrain), cellCount);
+      boardMarkers = decodeMarkers(fromBase64Url(markers), cols, cellCount);
+    }
+  } catch {
+    return null;
+  }
+  if (!wallIndices || !terrainCells || !boardMarkers) return null;
+
+  // Every marked cell is distinct, open and off the main endpoints, as the editor keeps them
+  const wallSet = new Set(wallIndices);
+  if (terrainCells.some(([index]) => wallSet.has(index))) return null;
+  const markedCells = [
+    ...boardMarkers.waypoints,
+    ...boardMarkers.extraStarts,
+    ...boardMarkers.extraFinishes,
+  ].map(pos => pos.row * cols + pos.col);
+  const takenCells = new Set([...wallIndices, startRow * cols + startCol, finishRow * cols + finishCol]);
+  if (new Set(markedCells).size !== markedCells.length || markedCells.some(index => takenCells.has(index))) return null;
+  const hasExtraEndpoints = boardMarkers.extraStarts.length > 0 || boardMarkers.extraFinishes.length > 0;
+  if (hasExtraEndpoints && !isMultiEndpointAlgorithm(algorithm as AlgorithmType)) return null;
+
+  return {
+    algorithm: algorithm as AlgorithmType,
+    markers: boardMarkers,
+    layout: {
+      id: 'shared-link',
+      name: 'Shared board',
+      rows,
+      cols,
+      start: { row: startRow, col: startCol },
+      finish: { row: finishRow, col: finishCol },
+      walls: wallIndices,
+      terrain: terrainCells,
+      savedAt: new Date().toISOString(),
+    },
+  };
+};
@@ -0,0 +1,142 @@
+import { GridLayout, GridPosition, LayoutFile, NodeData } from '../types';
+import { DEFAULT_NODE_WEIGHT, MAX_GRID_DIMENSION, MIN_GRID_DIMENSION, TERRAIN_WEIGHTS } from '../constants';
+
+/**
+ * Named board layouts: walls, terrain, start and finish, kept in localStorage and shareable
+ * as a versioned JSON file. Cells are stored as row-major indices to keep files small.
+ */
+
+export const LAYOUT_FILE_VERSION = 1;
+const STORAGE_KEY = 'pathfinder_layouts';
+
+const createId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createLayout = (
+  name: string,
+  grid: NodeData[][],
+  start: GridPosition,
+  finish: GridPosition
+): GridLayout => {
+  const cols = grid[0].length;
+  const walls: number[] = [];
+  const terrain: [number, number][] = [];
+  grid.forEach(row => row.forEach(node => {
+    const index = node.row * cols + node.col;
+    if (node.isWall) walls.push(index);
+    else if (node.weight !== DEFAULT_NODE_WEIGHT) terrain.push([index, node.weight]);
+  }));
+
+  return {
+    id: createId(),
+    name,
+    rows: grid.length,
+    cols,
+    start: { ...start },
+    finish: { ...finish },
+    walls,
+    terrain,
+    savedAt: new Date().toISOString(),
+  };
+};
+
+// Writes the layout's walls and terrain onto a fresh grid of the same size (start and finish stay open)
+export const applyLayout = (layout: GridLayout, emptyGrid: NodeData[][]): NodeData[][] => {
+  const grid = emptyGrid.map(row => row.slice());
+  const paint = (index: number, isWall: boolean, weight: number) => {
+    const node = grid[Math.floor(index / layout.cols)][index % layout.cols];
+    if (node.isStart || node.isFinish) return;
+    grid[node.row][node.col] = { ...node, isWall, weight };
+  };
+  layout.walls.forEach(index => paint(index, true, DEFAULT_NODE_WEIGHT));
+  layout.terrain.forEach(([index, weight]) => paint(index, false, weight));
+  return grid;
+};
+
+export const loadStoredLayouts = (): GridLayout[] => {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (!saved) return [];
+  try {
+    return parseLayouts(JSON.parse(saved));
+  } catch (e) {
+    console.error("Failed to parse saved layouts", e);
+    return [];
+  }
+};
+
+export const storeLayouts = (layouts: GridLayout[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(layouts));
+};
+
+export const exportLayouts = (layouts: GridLayout[]): string => {
+  const file: LayoutFile = { version: LAYOUT_FILE_VERSION, layouts };
+  return JSON.stringify(file, null, 2);
+};
+
+// Parses an exported file; throws with a readable message when the file is not a usable layout export
+export const importLayouts = (text: string): GridLayout[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (!isObject(data) || typeof data.version !== 'number') {
+    throw new Error('The file is not a layout export.');
+  }
+  if (data.version > LAYOUT_FILE_VERSION) {
+    throw new Error(`Layout file version ${data.version} is newer than this app supports (${LAYOUT_FILE_VERSION}).`);
+  }
+  // Imported layouts get fresh ids so they never overwrite existing ones
+  return parseLayouts(data.layouts).map(layout => ({ ...layout, id: createId() }));
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const isPosition = (value: unknown, rows: number, cols: number): value is GridPosition =>
+  isObject(value) &&
+  Number.isInteger(value.row) && Number.isInteger(value.col) &&
+  (value.row as number) >= 0 && (value.row as number) < rows &&
+  (value.col as number) >= 0 && (value.col as number) < cols;
+
+const isDimension = (value: unknown): value is number =>
+  Number.isInteger(value) && (value as number) >= MIN_GRID_DIMENSION && (value as number) <= MAX_GRID_DIMENSION;
+
+const parseLayouts = (value: unknown): GridLayout[] => {
+  if (!Array.isArray(value)) throw new Error('The file contains no layouts.');
+  return value.map((layout, i) => {
+    const label = isObject(layout) && typeof layout.name === 'string' ? `"${layout.name}"` : `#${i + 1}`;
+    if (!isObject(layout) || typeof layout.name !== 'string' || !isDimension(layout.rows) || !isDimension(layout.cols)) {
+      throw new Error(`Layout ${label} has an invalid name or size.`);
+    }
+    const { rows, cols } = layout;
+    if (!isPosition(layout.start, rows, cols) || !isPosition(layout.finish, rows, cols)) {
+      throw new Error(`Layout ${label} has its start or finish outside the grid.`);
+    }
+    if (layout.start.row === layout.finish.row && layout.start.col === layout.finish.col) {
+      throw new Error(`Layout ${label} has its start and finish on the same cell.`);
+    }
+    const isCell = (index: unknown) => Number.isInteger(index) && (index as number) >= 0 && (index as number) < rows * cols;
+    if (!Array.isArray(layout.walls) || !layout.walls.every(isCell)) {
+      throw new Error(`Layout ${label} has invalid wall cells.`);
+    }
+    // Only weights the terrain brushes paint, so an imported board never carries costs the app can't draw or edit
+    const terrain = layout.terrain ?? [];
+    if (!Array.isArray(terrain) || !terrain.every(entry =>
+      Array.isArray(entry) && isCell(entry[0]) && TERRAIN_WEIGHTS.includes(entry[1])
+    )) {
+      throw new Error(`Layout ${label} has invalid terrain cells.`);
+    }
+    return {
+      id: typeof layout.id === 'string' ? layout.id : createId(),
+      name: layout.name,
+      rows,
+      cols,
+      start: { row: layout.start.row, col: layout.start.col },
+      finish: { row: layout.finish.row, col: layout.finish.col },
+      walls: layout.walls as number[],
+      terrain: terrain as [number, number][],
+      savedAt: typeof layout.savedAt === 'string' ? layout.savedAt : new Date().toISOString(),
+    };
+  });
+};
@@ -0,0 +1,91 @@
+import { GridLayout, GridPosition, MovingAiMap, MovingAiScenario } from '../types';
+
+/**
+ * Parsers for the Moving AI Lab pathfinding benchmarks (https://movingai.com/benchmarks/):
+ * `.map` grids and `.scen` start/goal lists with their published optimal lengths.
+ * The published lengths assume 8-way movement without corner cutting and √2 diagonals.
+ */
+
+// '.' and 'G' are open ground, 'S' is swamp (passable); '@'/'O' are out of bounds, 'T' trees and 'W' water are impassable here
+const PASSABLE_TERRAIN = new Set(['.', 'G', 'S']);
+
+export const parseMovingAiMap = (text: string, name: string): MovingAiMap => {
+  const lines = text.split(/\r?\n/);
+  let rows = 0;
+  let cols = 0;
+  let lineIndex = 0;
+
+  for (; lineIndex < lines.length; lineIndex++) {
+    const [key, value] = lines[lineIndex].trim().split(/\s+/);
+    if (key === 'height') rows = Number(value);
+    else if (key === 'width') cols = Number(value);
+    else if (key === 'map') break;
+  }
+  if (lineIndex === lines.length) throw new Error(`${name}: missing "map" line, is this a Moving AI .map file?`);
+  if (!Number.isInteger(rows) || !Number.isInteger(cols) || rows <= 0 || cols <= 0) {
+    throw new Error(`${name}: invalid height/width header.`);
+  }
+
+  const walls = new Uint8Array(rows * cols);
+  for (let row = 0; row < rows; row++) {
+    const line = lines[lineIndex + 1 + row];
+    if (line === undefined || line.length < cols) throw new Error(`${name}: row ${row} is missing or shorter than ${cols} cells.`);
+    for (let col = 0; col < cols; col++) {
+      walls[row * cols + col] = PASSABLE_TERRAIN.has(line[col]) ? 0 : 1;
+    }
+  }
+
+  return { name, rows, cols, walls };
+};
+
+export const parseMovingAiScenarios = (text: string, name: string): MovingAiScenario[] => {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
+  if (lines.length === 0 || !/^version\s/i.test(lines[0])) throw new Error(`${name}: missing "version" line, is this a Moving AI .scen file?`);
+
+  return lines.slice(1).map((line, i) => {
+    // Columns: bucket, map, map width, map height, start x, start y, goal x, goal y, optimal length (x is the column)
+    const fields = line.split('\t').length >= 9 ? line.split('\t') : line.trim().split(/\s+/);
+    if (fields.length < 9) throw new Error(`${name}: scenario ${i + 1} has ${fields.length} fields, expected 9.`);
+    const [bucket, mapName, width, height, startX, startY, goalX, goalY, optimalLength] = fields;
+    const numbers = [bucket, width, height, startX, startY, goalX, goalY, optimalLength].map(Number);
+    if (numbers.some(value => !Number.isFinite(value))) throw new Error(`${name}: scenario ${i + 1} has a non-numeric field.`);
+    return {
+      index: i + 1,
+      bucket: Number(bucket),
+      mapName,
+      mapCols: Number(width),
+      mapRows: Number(height),
+      start: { row: Number(startY), col: Number(startX) },
+      goal: { row: Number(goalY), col: Number(goalX) },
+      optimalLength: Number(optimalLength),
+    };
+  });
+};
+
+// Scenario files name their map with a path (e.g. "maps/dao/arena.map"); compare file names only
+export const scenarioMatchesMap = (scenario: MovingAiScenario, map: MovingAiMap): boolean => {
+  const baseName = (path: string) => path.split(/[\\/]/).pop() ?? path;
+  return baseName(scenario.mapName) === baseName(map.name) && scenario.mapRows === map.rows && scenario.mapCols === map.cols;
+};
+
+export const isOpenCell = (map: MovingAiMap, pos: GridPosition): boolean =>
+  pos.row >= 0 && pos.row < map.rows && pos.col >= 0 && pos.col < map.cols && map.walls[pos.row * map.cols + pos.col] === 0;
+
+// Board layout for the map, so it loads through the same path as a saved layout
+export const movingAiMapToLayout = (map: MovingAiMap, start: GridPosition, finish: GridPosition): GridLayout => {
+  const walls: number[] = [];
+  map.walls.forEach((isWall, index) => {
+    if (isWall) walls.push(index);
+  });
+  return {
+    id: `movingai-${map.name}`,
+    name: map.name,
+    rows: map.rows,
+    cols: map.cols,
+    start,
+    finish,
+    walls,
+    terrain: [],
+    savedAt: new Date().toISOString(),
+  };
+};
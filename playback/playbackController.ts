@@ -0,0 +1,160 @@
+import { AnimationFrame, PlaybackState } from '../types';
+
+/**
+ * Plays a recorded timeline of animation frames onto the grid DOM.
+ * Frame classes are applied directly to the node elements (like the original setTimeout animation),
+ * so playback never re-renders the grid. Any position can be reached from any other, and the DOM
+ * always shows exactly frames [0, frameIndex).
+ */
+
+export interface PlaybackCallbacks {
+  // Called whenever the current frame changes, with the number of frames applied
+  onFrame?: (frameIndex: number) => void;
+  // Called every time playback reaches the last frame
+  onEnd?: () => void;
+}
+
+export interface PlaybackController {
+  load: (frames: AnimationFrame[], callbacks?: PlaybackCallbacks) => void;
+  play: () => void;
+  pause: () => void;
+  stepForward: () => void;
+  stepBackward: () => void;
+  seek: (frameIndex: number) => void;
+  skipToEnd: () => void;
+  setSpeed: (speed: number) => void;
+  clear: () => void;
+  getState: () => PlaybackState;
+  subscribe: (listener: () => void) => () => void;
+}
+
+function getNodeElement(frame: AnimationFrame) {
+  return document.getElementById(`node-${frame.row}-${frame.col}`);
+}
+
+export const createPlaybackController = (): PlaybackController => {
+  let frames: AnimationFrame[] = [];
+  let callbacks: PlaybackCallbacks = {};
+  let state: PlaybackState = { frameIndex: 0, frameCount: 0, isPlaying: false, speed: 1 };
+  let rafId = 0;
+  let lastTick = 0;
+  let budgetMs = 0;
+  const listeners = new Set<() => void>();
+
+  // State is replaced, never mutated, so subscribers can compare snapshots by reference
+  const setState = (patch: Partial<PlaybackState>) => {
+    state = { ...state, ...patch };
+    listeners.forEach(listener => listener());
+  };
+
+  const removeAppliedClasses = () => {
+    for (const frame of frames) {
+      if (frame.className) getNodeElement(frame)?.classList.remove(frame.className);
+    }
+  };
+
+  const applyFrames = (from: number, to: number) => {
+    for (let i = from; i < to; i++) {
+      const frame = frames[i];
+      if (!frame.className) continue;
+      if (frame.action === 'remove') getNodeElement(frame)?.classList.remove(frame.className);
+      else getNodeElement(frame)?.classList.add(frame.className);
+    }
+  };
+
+  const stopLoop = () => {
+    cancelAnimationFrame(rafId);
+    rafId = 0;
+  };
+
+  const goTo = (target: number) => {
+    const frameIndex = Math.max(0, Math.min(frames.length, target));
+    if (frameIndex >= state.frameIndex) {
+      applyFrames(state.frameIndex, frameIndex);
+    } else {
+      // Several frames may touch the same cell (or undo each other), so rewinding rebuilds the DOM state from scratch
+      removeAppliedClasses();
+      applyFrames(0, frameIndex);
+    }
+
+    const reachedEnd = frameIndex === frames.length && frameIndex !== state.frameIndex;
+    if (reachedEnd) stopLoop();
+    setState({ frameIndex, isPlaying: reachedEnd ? false : state.isPlaying });
+    callbacks.onFrame?.(frameIndex);
+    if (reachedEnd) callbacks.onEnd?.();
+  };
+
+  const tick = (now: number) => {
+    budgetMs += (now - lastTick) * state.speed;
+    lastTick = now;
+
+    // Fast speeds may owe several frames per animation frame
+    let target = state.frameIndex;
+    while (target < frames.length && budgetMs >= frames[target].delayMs) {
+      budgetMs -= frames[target].delayMs;
+      target++;
+    }
+    if (target !== state.frameIndex) goTo(target);
+
+    if (state.isPlaying) rafId = requestAnimationFrame(tick);
+  };
+
+  const pause = () => {
+    stopLoop();
+    if (state.isPlaying) setState({ isPlaying: false });
+  };
+
+  return {
+    load: (newFrames, newCallbacks = {}) => {
+      stopLoop();
+      removeAppliedClasses();
+      frames = newFrames;
+      callbacks = newCallbacks;
+      setState({ frameIndex: 0, frameCount: frames.length, isPlaying: false });
+    },
+    play: () => {
+      if (state.isPlaying) return;
+      // An empty timeline is already at its end
+      if (frames.length === 0) {
+        callbacks.onEnd?.();
+        return;
+      }
+      // Replaying from the end starts over
+      if (state.frameIndex === frames.length) goTo(0);
+      budgetMs = 0;
+      lastTick = performance.now();
+      setState({ isPlaying: true });
+      rafId = requestAnimationFrame(tick);
+    },
+    pause,
+    stepForward: () => {
+      pause();
+      goTo(state.frameIndex + 1);
+    },
+    stepBackward: () => {
+      pause();
+      goTo(state.frameIndex - 1);
+    },
+    seek: (frameIndex) => {
+      pause();
+      goTo(frameIndex);
+    },
+    skipToEnd: () => {
+      pause();
+      goTo(frames.length);
+    },
+    setSpeed: (speed) => setState({ speed }),
+    clear: () => {
+      stopLoop();
+      removeAppliedClasses();
+      frames = [];
+      callbacks = {};
+      setState({ frameIndex: 0, frameCount: 0, isPlaying: false });
+    },
+    getState: () => state,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+};
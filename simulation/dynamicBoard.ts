@@ -0,0 +1,76 @@
+import { GridPosition, NodeData, Patrol, SerializedGrid } from '../types';
+import { serializeGrid } from '../workers/serialization';
+
+/**
+ * Rules of the dynamic simulation: patrols walking back and forth along straight routes, a target that
+ * drifts, and when the agent's path counts as blocked. Everything here works on positions only;
+ * SimulationModal runs the ticks and draws them.
+ */
+
+const PATROL_MIN_LENGTH = 3;
+const PATROL_MAX_LENGTH = 8;
+
+const ORTHOGONAL_OFFSETS: [number, number][] = [[-1, 0], [1, 0], [0, -1], [0, 1]];
+
+const key = (pos: GridPosition) => `${pos.row}-${pos.col}`;
+
+export const isSamePosition = (a: GridPosition, b: GridPosition) => a.row === b.row && a.col === b.col;
+
+const isOpen = (grid: NodeData[][], pos: GridPosition) =>
+  pos.row >= 0 && pos.row < grid.length && pos.col >= 0 && pos.col < grid[0].length && !grid[pos.row][pos.col].isWall;
+
+// Up to `count` horizontal or vertical routes over open cells. Routes never share a cell, with each other or
+// with the reserved cells, so patrols never collide and never start on the agent or the target.
+export const createPatrols = (grid: NodeData[][], count: number, reserved: GridPosition[], random: () => number): Patrol[] => {
+  const taken = new Set(reserved.map(key));
+  const isFree = (pos: GridPosition) => isOpen(grid, pos) && !taken.has(key(pos));
+  const patrols: Patrol[] = [];
+
+  for (let attempt = 0; attempt < count * 20 && patrols.length < count; attempt++) {
+    const origin = { row: Math.floor(random() * grid.length), col: Math.floor(random() * grid[0].length) };
+    const [dRow, dCol] = random() < 0.5 ? [0, 1] : [1, 0];
+    const length = PATROL_MIN_LENGTH + Math.floor(random() * (PATROL_MAX_LENGTH - PATROL_MIN_LENGTH + 1));
+    const route: GridPosition[] = [];
+    for (let i = 0; i < length; i++) {
+      const pos = { row: origin.row + dRow * i, col: origin.col + dCol * i };
+      if (!isFree(pos)) break;
+      route.push(pos);
+    }
+    if (route.length < PATROL_MIN_LENGTH) continue;
+    route.forEach(pos => taken.add(key(pos)));
+    patrols.push({ route, index: Math.floor(random() * route.length), direction: random() < 0.5 ? 1 : -1 });
+  }
+  return patrols;
+};
+
+export const getPatrolPosition = (patrol: Patrol): GridPosition => patrol.route[patrol.index];
+
+// One step along each route, turning at its ends. A patrol whose next cell is occupied (by the agent or the
+// target) waits there instead.
+export const movePatrols = (patrols: Patrol[], occupied: GridPosition[]): Patrol[] =>
+  patrols.map(patrol => {
+    const isAtEnd = patrol.index + patrol.direction < 0 || patrol.index + patrol.direction >= patrol.route.length;
+    const direction = isAtEnd ? -patrol.direction as Patrol['direction'] : patrol.direction;
+    const index = patrol.index + direction;
+    if (occupied.some(pos => isSamePosition(pos, patrol.route[index]))) return { ...patrol, direction };
+    return { ...patrol, index, direction };
+  });
+
+// The target steps to a random open neighbour that no obstacle stands on, or stays put when boxed in
+export const driftTarget = (grid: NodeData[][], target: GridPosition, obstacles: GridPosition[], random: () => number): GridPosition => {
+  const options = ORTHOGONAL_OFFSETS
+    .map(([dRow, dCol]) => ({ row: target.row + dRow, col: target.col + dCol }))
+    .filter(pos => isOpen(grid, pos) && !obstacles.some(obstacle => isSamePosition(obstacle, pos)));
+  return options.length > 0 ? options[Math.floor(random() * options.length)] : target;
+};
+
+// First cell of the path ahead that an obstacle now stands on
+export const findBlockedCell = (path: GridPosition[], obstacles: GridPosition[]): GridPosition | null =>
+  path.find(pos => obstacles.some(obstacle => isSamePosition(obstacle, pos))) ?? null;
+
+// The board as the agent plans on it: every obstacle is a wall where it stands right now
+export const serializeWithObstacles = (grid: NodeData[][], obstacles: GridPosition[]): SerializedGrid => {
+  const serialized = serializeGrid(grid);
+  obstacles.forEach(({ row, col }) => { serialized.walls[row * serialized.cols + col] = 1; });
+  return serialized;
+};
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { AlgorithmType, MovementMode, PriorityQueueType } from '../types';
+import { ALGORITHMS } from '../algorithms/registry';
+import { dijkstra } from '../algorithms/dijkstra';
+import { validateSearchResult } from '../algorithms/pathValidator';
+import { parseBoard, randomBoard } from './boards';
+
+// Algorithms that promise the cheapest path on weighted boards, and the ones that only do so when every cell costs the same.
+// IDA* and IDDFS are checked on their own: they may give up at their expansion limit instead.
+const WEIGHTED_OPTIMAL: AlgorithmType[] = ['dijkstra', 'astar', 'bmssp', 'bellmanFord', 'spfa', 'lpaStar', 'dStarLite'];
+const UNIFORM_OPTIMAL: AlgorithmType[] = [...WEIGHTED_OPTIMAL, 'bfs', 'jps'];
+const MOVEMENTS: MovementMode[] = ['fourWay', 'eightWay', 'eightWayNoCornerCutting'];
+const QUEUES: PriorityQueueType[] = ['binaryHeap', 'pairingHeap', 'sortedArray'];
+
+const validate = (lines: string[], algorithm: AlgorithmType, movement: MovementMode, queueType?: PriorityQueueType) => {
+  const board = parseBoard(lines, movement);
+  const result = ALGORITHMS[algorithm](board.graph, board.startNode, board.finishNode, queueType);
+  const reference = parseBoard(lines, movement);
+  const optimal = dijkstra(reference.graph, reference.startNode, reference.finishNode).nodesInShortestPathOrder
+    .map(node => board.nodeAt(node.row, node.col));
+  return validateSearchResult(board.graph, [board.startNode], [board.finishNode], result, optimal,
+    { optimalNegativeCycle: [], handlesNegativeCosts: false });
+};
+
+describe('optimal algorithms', () => {
+  const seeds = [1, 2, 3, 4, 5, 6];
+
+  for (const movement of MOVEMENTS) {
+    it.each(WEIGHTED_OPTIMAL)(`%s finds the cheapest path on weighted boards (${movement})`, (algorithm) => {
+      for (const seed of seeds) {
+        expect(validate(randomBoard(seed, 10, 14, 0.25, 'fmw'), algorithm, movement), `seed ${seed}`).toEqual({ isValid: true, reason: null });
+      }
+    });
+
+    it.each(UNIFORM_OPTIMAL)(`%s finds the shortest path on uniform boards (${movement})`, (algorithm) => {
+      for (const seed of seeds) {
+        expect(validate(randomBoard(seed, 10, 14, 0.3), algorithm, movement), `seed ${seed}`).toEqual({ isValid: true, reason: null });
+      }
+    });
+  }
+
+  it('IDA* and IDDFS find the optimum on small four-way boards', () => {
+    for (const seed of seeds) {
+      expect(validate(randomBoard(seed, 8, 10, 0.25, 'fmw'), 'idaStar', 'fourWay'), `seed ${seed}`).toEqual({ isValid: true, reason: null });
+      expect(validate(randomBoard(seed, 8, 10, 0.3), 'iddfs', 'fourWay'), `seed ${seed}`).toEqual({ isValid: true, reason: null });
+    }
+  });
+
+  it.each(MOVEMENTS)('IDA* and IDDFS either find the optimum or report giving up (%s)', (movement) => {
+    for (const seed of seeds) {
+      for (const [algorithm, lines] of [['idaStar', randomBoard(seed, 10, 14, 0.25, 'fmw')], ['iddfs', randomBoard(seed, 10, 14, 0.3)]] as const) {
+        const { isValid, reason } = validate([...lines], algorithm, movement);
+        if (!isValid) expect(reason, `${algorithm} seed ${seed}`).toMatch(/^Gave up after/);
+      }
+    }
+  });
+
+  it.each(QUEUES)('Dijkstra and A* stay optimal with a %s queue', (queueType) => {
+    for (const seed of seeds) {
+      expect(validate(randomBoard(seed, 12, 16, 0.25, 'fmw'), 'dijkstra', 'eightWay', queueType).isValid).toBe(true);
+      expect(validate(randomBoard(seed, 12, 16, 0.25, 'fmw'), 'astar', 'eightWay', queueType).isValid).toBe(true);
+    }
+  });
+
+  it.each([...UNIFORM_OPTIMAL, 'idaStar', 'iddfs'] as AlgorithmType[])('%s reports no path when the finish is walled off', (algorithm) => {
+    expect(validate(['S.#..', '..#..', '###.F'], algorithm, 'eightWay')).toEqual({ isValid: true, reason: null });
+  });
+});
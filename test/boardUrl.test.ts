@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { BoardMarkers } from '../types';
+import { decodeBoardHash, encodeBoardHash } from '../layouts/boardUrl';
+import { parseBoard, randomBoard } from './boards';
+
+const NO_MARKERS: BoardMarkers = { waypoints: [], extraStarts: [], extraFinishes: [] };
+
+const BOARD = [
+  '#S..#.',
+  '.#.m..',
+  'w..b#.',
+  '..f...',
+  '##..F#',
+];
+
+const encode = (lines: string[], markers = NO_MARKERS, algorithm: Parameters<typeof encodeBoardHash>[4] = 'dijkstra') => {
+  const { grid, start, finish } = parseBoard(lines);
+  return encodeBoardHash(grid, start, finish, markers, algorithm);
+};
+
+describe('board links', () => {
+  it('round-trips walls, terrain, endpoints, markers and algorithm', () => {
+    const markers: BoardMarkers = { waypoints: [{ row: 3, col: 0 }, { row: 0, col: 3 }], extraStarts: [{ row: 1, col: 5 }], extraFinishes: [] };
+    const board = decodeBoardHash(`#${encode(BOARD, markers)}`);
+    expect(board).not.toBeNull();
+    expect(board!.algorithm).toBe('dijkstra');
+    expect(board!.markers).toEqual(markers);
+    expect(board!.layout).toMatchObject({
+      rows: 5, cols: 6, start: { row: 0, col: 1 }, finish: { row: 4, col: 4 },
+      walls: [0, 4, 7, 16, 24, 25, 29],
+      terrain: [[9, 5], [12, 10], [15, -1], [20, 3]],
+    });
+  });
+
+  it('round-trips seeded random boards', () => {
+    for (let seed = 1; seed <= 40; seed++) {
+      const lines = randomBoard(seed, 5 + (seed % 7) * 9, 5 + (seed % 5) * 13, (seed % 4) / 4, 'fmwb');
+      const { grid } = parseBoard(lines);
+      const layout = decodeBoardHash(`#${encode(lines)}`)?.layout;
+      const cells = grid.flat();
+      expect(layout?.walls, `seed ${seed}`).toEqual(cells.filter(node => node.isWall).map(node => node.row * grid[0].length + node.col));
+      expect(layout?.terrain, `seed ${seed}`).toEqual(cells.filter(node => node.weight !== 1).map(node => [node.row * grid[0].length + node.col, node.weight]));
+    }
+  });
+
+  it('still opens version 1 links, which carry walls only', () => {
+    // 12 open cells, 1 wall, 12 open cells
+    const board = decodeBoardHash('#b=1.5x5.0,0.4,4.astar.DAEM');
+    expect(board?.layout).toMatchObject({ walls: [12], terrain: [] });
+    expect(board?.markers).toEqual(NO_MARKERS);
+  });
+
+  it('opens the default board for malformed or inconsistent links', () => {
+    const hash = encode(BOARD);
+    const [version, size, start, finish, algorithm, walls, terrain, markers] = hash.slice(2).split('.');
+    const withParts = (parts: Record<number, string>) => {
+      const fields = [version, size, start, finish, algorithm, walls, terrain, markers];
+      Object.entries(parts).forEach(([i, part]) => { fields[Number(i)] = part; });
+      return `#b=${fields.join('.')}`;
+    };
+
+    expect(decodeBoardHash('')).toBeNull();
+    expect(decodeBoardHash(withParts({ 0: '3' }))).toBeNull();
+    expect(decodeBoardHash(withParts({ 1: '4x6' }))).toBeNull();
+    expect(decodeBoardHash(withParts({ 3: '0,1' }))).toBeNull();
+    expect(decodeBoardHash(withParts({ 4: 'teleport' }))).toBeNull();
+    expect(decodeBoardHash(withParts({ 5: 'AAAA' }))).toBeNull();
+    expect(decodeBoardHash(`${withParts({})}.extra`)).toBeNull();
+    expect(decodeBoardHash(`#b=${[version, size, start, finish, algorithm, walls].join('.')}`)).toBeNull();
+  });
+
+  it('rejects terrain a brush cannot paint and markers the editor would not allow', () => {
+    const open = ['S....', '.....', '.....', '.....', '....F'];
+    const [, , , , , walls, , markers] = encode(open).slice(2).split('.');
+    const head = '#b=2.5x5.0,0.4,4.dijkstra';
+    // One run of 25 cells at weight 2 (zigzag 4)
+    expect(decodeBoardHash(`${head}.${walls}.GQQ.${markers}`)).toBeNull();
+
+    const withMarkers = (markerSet: BoardMarkers, algorithm: Parameters<typeof encodeBoardHash>[4] = 'dijkstra') =>
+      decodeBoardHash(`#${encode(open, markerSet, algorithm)}`);
+    expect(withMarkers({ ...NO_MARKERS, waypoints: [{ row: 2, col: 2 }] })).not.toBeNull();
+    expect(withMarkers({ ...NO_MARKERS, waypoints: [{ row: 0, col: 0 }] })).toBeNull();
+    expect(withMarkers({ ...NO_MARKERS, waypoints: [{ row: 2, col: 2 }], extraFinishes: [{ row: 2, col: 2 }] })).toBeNull();
+    expect(withMarkers({ ...NO_MARKERS, extraStarts: [{ row: 2, col: 2 }] }, 'astar')).toBeNull();
+    expect(decodeBoardHash(`#${encode(['S.#..', '.....', '.....', '.....', '....F'], { ...NO_MARKERS, waypoints: [{ row: 0, col: 2 }] })}`)).toBeNull();
+  });
+});
@@ -0,0 +1,56 @@
+import { MovementMode, NodeData } from '../types';
+import { DEFAULT_NODE_WEIGHT, TERRAINS } from '../constants';
+import { createGridGraph } from '../algorithms/gridGraph';
+import { deserializeGrid } from '../workers/serialization';
+
+/**
+ * Boards for tests, drawn as text: `.` open, `#` wall, `S` start, `F` finish, and the first letter of a
+ * terrain (`f` forest, `m` mud, `w` water, `b` boost). Every call builds a fresh, unsearched grid.
+ */
+
+const TERRAIN_CELLS: Record<string, number> = Object.fromEntries(
+  Object.entries(TERRAINS).map(([type, terrain]) => [type[0], terrain.weight])
+);
+
+export const parseBoard = (lines: string[], movement: MovementMode = 'fourWay') => {
+  const rows = lines.length;
+  const cols = lines[0].length;
+  const walls = new Uint8Array(rows * cols);
+  const weights = new Float64Array(rows * cols).fill(DEFAULT_NODE_WEIGHT);
+  let start = { row: -1, col: -1 };
+  let finish = { row: -1, col: -1 };
+  lines.forEach((line, row) => [...line].forEach((cell, col) => {
+    const index = row * cols + col;
+    if (cell === '#') walls[index] = 1;
+    else if (cell === 'S') start = { row, col };
+    else if (cell === 'F') finish = { row, col };
+    else if (cell in TERRAIN_CELLS) weights[index] = TERRAIN_CELLS[cell];
+    else if (cell !== '.') throw new Error(`Unknown board cell "${cell}"`);
+  }));
+
+  const grid = deserializeGrid({ rows, cols, walls, weights });
+  const nodeAt = (row: number, col: number): NodeData => grid[row][col];
+  const startNode = nodeAt(start.row, start.col);
+  const finishNode = nodeAt(finish.row, finish.col);
+  startNode.isStart = true;
+  finishNode.isFinish = true;
+  return { grid, graph: createGridGraph(grid, movement), start, finish, startNode, finishNode, nodeAt };
+};
+
+// Seeded (mulberry32) random board with the start and finish in opposite corners
+export const randomBoard = (seed: number, rows: number, cols: number, wallDensity: number, terrainCells = ''): string[] => {
+  let state = seed >>> 0;
+  const random = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return Array.from({ length: rows }, (_, row) => Array.from({ length: cols }, (_, col) => {
+    if (row === 0 && col === 0) return 'S';
+    if (row === rows - 1 && col === cols - 1) return 'F';
+    if (random() < wallDensity) return '#';
+    return terrainCells.length > 0 && random() < 0.3 ? terrainCells[Math.floor(random() * terrainCells.length)] : '.';
+  }).join(''));
+};
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { MovementMode, NodeData } from '../types';
+import { TERRAINS } from '../constants';
+import { getPathCost } from '../algorithms/gridGraph';
+import { dijkstra } from '../algorithms/dijkstra';
+import { createDStarLite, createLpaStar } from '../algorithms/incrementalSearch';
+import { validateSearchResult } from '../algorithms/pathValidator';
+import { parseBoard, randomBoard } from './boards';
+
+const PLANNERS = { lpaStar: createLpaStar, dStarLite: createDStarLite };
+const MOVEMENTS: MovementMode[] = ['fourWay', 'eightWay', 'eightWayNoCornerCutting'];
+const CELL_WEIGHTS: Record<string, number> = { '.': 1, f: TERRAINS.forest.weight, m: TERRAINS.mud.weight };
+
+// Seeded edits that flip walls and repaint terrain, never touching the corners (start and finish)
+const createEditor = (seed: number) => {
+  let state = seed;
+  const random = () => {
+    state = (Math.imul(state, 1103515245) + 12345) >>> 0;
+    return state / 4294967296;
+  };
+  return (lines: string[]) => {
+    const rows = lines.length;
+    const cols = lines[0].length;
+    const cells = lines.map(line => [...line]);
+    const edited: [number, number][] = [];
+    for (let i = 0; i < 1 + Math.floor(random() * 6); i++) {
+      const row = Math.floor(random() * rows);
+      const col = Math.floor(random() * cols);
+      if (cells[row][col] === 'S' || cells[row][col] === 'F') continue;
+      cells[row][col] = random() < 0.6 ? (cells[row][col] === '#' ? '.' : '#') : '.fm'[Math.floor(random() * 3)];
+      edited.push([row, col]);
+    }
+    return { lines: cells.map(line => line.join('')), edited };
+  };
+};
+
+describe.each(Object.keys(PLANNERS) as (keyof typeof PLANNERS)[])('%s repairs', (planner) => {
+  it.each(MOVEMENTS)('keep the path optimal through a series of wall and terrain edits (%s)', (movement) => {
+    let repairedNodes = 0;
+    let freshNodes = 0;
+    for (let seed = 1; seed <= 12; seed++) {
+      let lines = randomBoard(seed, 8 + (seed % 5) * 3, 10 + (seed % 4) * 4, [0.1, 0.25, 0.4][seed % 3], 'fm');
+      const board = parseBoard(lines, movement);
+      const search = PLANNERS[planner](board.graph, board.startNode, board.finishNode);
+      const edit = createEditor(seed);
+
+      for (let step = 0; step <= 6; step++) {
+        const expanded = search.computeShortestPath();
+        const reference = parseBoard(lines, movement);
+        const optimal = dijkstra(reference.graph, reference.startNode, reference.finishNode);
+        const path = search.getPath();
+        const validation = validateSearchResult(board.graph, [board.startNode], [board.finishNode],
+          { visitedNodesInOrder: expanded, nodesInShortestPathOrder: path },
+          optimal.nodesInShortestPathOrder.map(node => board.nodeAt(node.row, node.col)),
+          { optimalNegativeCycle: [], handlesNegativeCosts: false });
+        expect(validation, `seed ${seed}, step ${step}`).toEqual({ isValid: true, reason: null });
+        if (path.length > 0) {
+          expect(getPathCost(board.graph, path)).toBeCloseTo(getPathCost(reference.graph, optimal.nodesInShortestPathOrder), 9);
+        }
+        if (step > 0) {
+          repairedNodes += expanded.length;
+          freshNodes += optimal.visitedNodesInOrder.length;
+        }
+
+        // Edit the planner's own grid in place, then tell it which cells changed
+        const next = edit(lines);
+        lines = next.lines;
+        const changed: NodeData[] = next.edited.map(([row, col]) => {
+          const node = board.nodeAt(row, col);
+          node.isWall = lines[row][col] === '#';
+          node.weight = node.isWall ? 1 : CELL_WEIGHTS[lines[row][col]];
+          return node;
+        });
+        search.updateCells(changed);
+      }
+    }
+    // Repairs only revisit what the edits reach, so together they expand far less than searching again
+    expect(repairedNodes).toBeLessThan(freshNodes);
+  });
+
+  it('finds the path again after the only gap is closed and reopened', () => {
+    const board = parseBoard(['S.#..', '..#..', '.....', '..#.F']);
+    const search = PLANNERS[planner](board.graph, board.startNode, board.finishNode);
+    search.computeShortestPath();
+    expect(search.getPath().length).toBeGreaterThan(0);
+
+    const gap = [board.nodeAt(2, 2)];
+    gap[0].isWall = true;
+    search.updateCells(gap);
+    search.computeShortestPath();
+    expect(search.getPath()).toEqual([]);
+
+    gap[0].isWall = false;
+    search.updateCells(gap);
+    search.computeShortestPath();
+    expect(search.getPath()).toContain(gap[0]);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { applyLayout, createLayout, exportLayouts, importLayouts } from '../layouts/layoutLibrary';
+import { parseBoard } from './boards';
+
+const BOARD = [
+  'S.#mw',
+  '.f#..',
+  '..b..',
+  '.##..',
+  '....F',
+];
+
+const layoutOf = (lines: string[]) => {
+  const { grid, start, finish } = parseBoard(lines);
+  return createLayout('Test board', grid, start, finish);
+};
+
+// A one-layout export with some fields replaced
+const exportWith = (changes: Record<string, unknown>) => {
+  const file = JSON.parse(exportLayouts([layoutOf(BOARD)]));
+  file.layouts[0] = { ...file.layouts[0], ...changes };
+  return JSON.stringify(file);
+};
+
+describe('layout files', () => {
+  it('round-trips walls, terrain and endpoints through export and import', () => {
+    const layout = layoutOf(BOARD);
+    const [imported] = importLayouts(exportLayouts([layout]));
+    expect(imported.id).not.toBe(layout.id);
+    expect({ ...imported, id: layout.id }).toEqual(layout);
+
+    const { grid } = parseBoard(BOARD);
+    const applied = applyLayout(imported, parseBoard(['S....', '.....', '.....', '.....', '....F']).grid);
+    expect(applied.map(row => row.map(node => [node.isWall, node.weight]))).toEqual(grid.map(row => row.map(node => [node.isWall, node.weight])));
+  });
+
+  it('rejects files that are not layout exports', () => {
+    expect(() => importLayouts('{')).toThrow('The file is not valid JSON.');
+    expect(() => importLayouts('[]')).toThrow('The file is not a layout export.');
+    expect(() => importLayouts('{"version": 99, "layouts": []}')).toThrow('Layout file version 99 is newer than this app supports (1).');
+    expect(() => importLayouts('{"version": 1}')).toThrow('The file contains no layouts.');
+  });
+
+  it('rejects layouts with bad sizes, endpoints or cells', () => {
+    expect(() => importLayouts(exportWith({ rows: 4 }))).toThrow('Layout "Test board" has an invalid name or size.');
+    expect(() => importLayouts(exportWith({ finish: { row: 5, col: 0 } }))).toThrow('Layout "Test board" has its start or finish outside the grid.');
+    expect(() => importLayouts(exportWith({ finish: { row: 0, col: 0 } }))).toThrow('Layout "Test board" has its start and finish on the same cell.');
+    expect(() => importLayouts(exportWith({ walls: [25] }))).toThrow('Layout "Test board" has invalid wall cells.');
+    expect(() => importLayouts(exportWith({ terrain: [[25, 3]] }))).toThrow('Layout "Test board" has invalid terrain cells.');
+  });
+
+  it('only accepts terrain weights a brush can paint', () => {
+    expect(importLayouts(exportWith({ terrain: [[1, 10], [6, -1], [7, 1]] }))[0].terrain).toEqual([[1, 10], [6, -1], [7, 1]]);
+    for (const weight of [0, 2, 4.5, -5, 1e9, '3', null]) {
+      expect(() => importLayouts(exportWith({ terrain: [[1, weight]] })), String(weight)).toThrow('Layout "Test board" has invalid terrain cells.');
+    }
+  });
+});
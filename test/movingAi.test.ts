@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { AlgorithmType } from '../types';
+import { DEFAULT_NODE_WEIGHT } from '../constants';
+import { createGridGraph, getPathCost } from '../algorithms/gridGraph';
+import { ALGORITHMS } from '../algorithms/registry';
+import { deserializeGrid } from '../workers/serialization';
+import { isOpenCell, movingAiMapToLayout, parseMovingAiMap, parseMovingAiScenarios, scenarioMatchesMap } from '../layouts/movingAi';
+
+const MAP = [
+  'type octile',
+  'height 4',
+  'width 6',
+  'map',
+  '......',
+  '@OTWS.',
+  '..G...',
+  '......',
+].join('\n');
+
+// Published lengths: 8-way moves without corner cutting, √2 diagonals
+const SCEN = [
+  'version 1',
+  '0\tmaps/test/corridor.map\t6\t4\t0\t0\t5\t3\t7.41421356',
+  '1\tmaps/test/corridor.map\t6\t4\t0\t0\t0\t3\t10.41421356',
+].join('\r\n');
+
+describe('Moving AI maps', () => {
+  it('reads the header and marks only ., G and S as passable', () => {
+    const map = parseMovingAiMap(MAP, 'corridor.map');
+    expect(map).toMatchObject({ name: 'corridor.map', rows: 4, cols: 6 });
+    expect(Array.from(map.walls.slice(6, 12))).toEqual([1, 1, 1, 1, 0, 0]);
+    expect(isOpenCell(map, { row: 2, col: 2 })).toBe(true);
+    expect(isOpenCell(map, { row: 1, col: 0 })).toBe(false);
+    expect(isOpenCell(map, { row: 4, col: 0 })).toBe(false);
+  });
+
+  it('rejects files that are not well-formed maps', () => {
+    expect(() => parseMovingAiMap('type octile\nheight 4\nwidth 6', 'a.map')).toThrow('a.map: missing "map" line, is this a Moving AI .map file?');
+    expect(() => parseMovingAiMap('height x\nwidth 6\nmap', 'a.map')).toThrow('a.map: invalid height/width header.');
+    expect(() => parseMovingAiMap(MAP.replace('......\n@', '...\n@'), 'a.map')).toThrow('a.map: row 0 is missing or shorter than 6 cells.');
+  });
+
+  it('turns a map into a layout with its walls', () => {
+    const map = parseMovingAiMap(MAP, 'corridor.map');
+    const layout = movingAiMapToLayout(map, { row: 0, col: 0 }, { row: 3, col: 5 });
+    expect(layout).toMatchObject({ rows: 4, cols: 6, walls: [6, 7, 8, 9], terrain: [] });
+  });
+});
+
+describe('Moving AI scenarios', () => {
+  it('reads start/goal pairs with x as the column', () => {
+    const [first, second] = parseMovingAiScenarios(SCEN, 'corridor.map.scen');
+    expect(first).toEqual({
+      index: 1, bucket: 0, mapName: 'maps/test/corridor.map', mapCols: 6, mapRows: 4,
+      start: { row: 0, col: 0 }, goal: { row: 3, col: 5 }, optimalLength: 7.41421356,
+    });
+    expect(second.goal).toEqual({ row: 3, col: 0 });
+  });
+
+  it('accepts space-separated fields and rejects malformed lines', () => {
+    expect(parseMovingAiScenarios('version 1\n0 corridor.map 6 4 0 0 5 3 6.2', 's')[0].optimalLength).toBe(6.2);
+    expect(() => parseMovingAiScenarios('0\tcorridor.map', 's')).toThrow('s: missing "version" line, is this a Moving AI .scen file?');
+    expect(() => parseMovingAiScenarios('version 1\n0\tcorridor.map\t6\t4', 's')).toThrow('s: scenario 1 has 4 fields, expected 9.');
+    expect(() => parseMovingAiScenarios('version 1\n0\tcorridor.map\t6\t4\tx\t0\t5\t3\t1', 's')).toThrow('s: scenario 1 has a non-numeric field.');
+  });
+
+  it('matches scenarios to their map by file name and size', () => {
+    const map = parseMovingAiMap(MAP, 'corridor.map');
+    const [scenario] = parseMovingAiScenarios(SCEN, 's');
+    expect(scenarioMatchesMap(scenario, map)).toBe(true);
+    expect(scenarioMatchesMap({ ...scenario, mapName: 'maps\\test\\corridor.map' }, map)).toBe(true);
+    expect(scenarioMatchesMap({ ...scenario, mapRows: 5 }, map)).toBe(false);
+    expect(scenarioMatchesMap(scenario, { ...map, name: 'arena.map' })).toBe(false);
+  });
+
+  it.each(['dijkstra', 'astar', 'bmssp', 'spfa'] as AlgorithmType[])('%s reproduces the published optimal lengths', (algorithm) => {
+    const map = parseMovingAiMap(MAP, 'corridor.map');
+    for (const scenario of parseMovingAiScenarios(SCEN, 's')) {
+      const grid = deserializeGrid({ ...map, weights: new Float64Array(map.rows * map.cols).fill(DEFAULT_NODE_WEIGHT) });
+      const graph = createGridGraph(grid, 'eightWayNoCornerCutting');
+      const startNode = grid[scenario.start.row][scenario.start.col];
+      const goalNode = grid[scenario.goal.row][scenario.goal.col];
+      startNode.isStart = true;
+      goalNode.isFinish = true;
+      const path = ALGORITHMS[algorithm](graph, startNode, goalNode).nodesInShortestPathOrder;
+      expect(getPathCost(graph, path)).toBeCloseTo(scenario.optimalLength, 6);
+    }
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { GridGraph, NodeData } from '../types';
+import { getCycleCost, getPathCost } from '../algorithms/gridGraph';
+import { bellmanFord, multiSourceBellmanFord } from '../algorithms/bellmanFord';
+import { spfa } from '../algorithms/spfa';
+import { validateSearchResult } from '../algorithms/pathValidator';
+import { parseBoard, randomBoard } from './boards';
+
+const LABEL_CORRECTING = { bellmanFord, spfa };
+
+// Textbook Bellman–Ford over the same graph: the finish's cost, or null when a negative cycle is reachable from the start
+const referenceCost = (graph: GridGraph, startNode: NodeData, finishNode: NodeData): number | null => {
+  const nodes = graph.grid.flat().filter(node => !node.isWall);
+  const cost = new Map<NodeData, number>(nodes.map(node => [node, Infinity]));
+  cost.set(startNode, 0);
+  const relax = () => {
+    let changed = false;
+    for (const node of nodes) {
+      const from = cost.get(node)!;
+      if (from === Infinity) continue;
+      for (const neighbor of graph.getNeighbors(node)) {
+        const candidate = from + graph.getCost(node, neighbor);
+        if (candidate < cost.get(neighbor)! - 1e-9) {
+          cost.set(neighbor, candidate);
+          changed = true;
+        }
+      }
+    }
+    return changed;
+  };
+  for (let i = 1; i < nodes.length; i++) relax();
+  return relax() ? null : cost.get(finishNode)!;
+};
+
+const run = (lines: string[], algorithm: keyof typeof LABEL_CORRECTING) => {
+  const board = parseBoard(lines, 'eightWay');
+  const result = LABEL_CORRECTING[algorithm](board.graph, board.startNode, board.finishNode);
+  const reference = parseBoard(lines, 'eightWay');
+  const truth = multiSourceBellmanFord(reference.graph, [reference.startNode], [reference.finishNode]);
+  const toBoard = (nodes: NodeData[]) => nodes.map(node => board.nodeAt(node.row, node.col));
+  const validation = validateSearchResult(board.graph, [board.startNode], [board.finishNode], result,
+    toBoard(truth.nodesInShortestPathOrder), { optimalNegativeCycle: toBoard(truth.negativeCycle ?? []), handlesNegativeCosts: true });
+  return { board, result, validation, expectedCost: referenceCost(reference.graph, reference.startNode, reference.finishNode) };
+};
+
+describe.each(['bellmanFord', 'spfa'] as const)('%s on boards with boost cells', (algorithm) => {
+  it('takes a lone boost cell when it makes the path cheaper', () => {
+    const { board, result, validation } = run(['S#.#F', '..b..'], algorithm);
+    expect(validation).toEqual({ isValid: true, reason: null });
+    expect(result.negativeCycle ?? []).toEqual([]);
+    expect(result.nodesInShortestPathOrder).toContain(board.nodeAt(1, 2));
+    expect(getPathCost(board.graph, result.nodesInShortestPathOrder)).toBeCloseTo(2 * Math.SQRT2, 9);
+  });
+
+  it('reports a reachable negative cycle instead of a path', () => {
+    const { board, result, validation } = run(['S.bb.F'], algorithm);
+    expect(validation).toEqual({ isValid: true, reason: null });
+    expect(result.nodesInShortestPathOrder).toEqual([]);
+    expect(result.negativeCycle!.length).toBeGreaterThan(1);
+    expect(getCycleCost(board.graph, result.negativeCycle!)).toBeLessThan(0);
+  });
+
+  it('ignores a negative cycle the start cannot reach', () => {
+    const { result, validation } = run(['S...#bb', '....###', '......F'], algorithm);
+    expect(validation).toEqual({ isValid: true, reason: null });
+    expect(result.negativeCycle ?? []).toEqual([]);
+    expect(result.nodesInShortestPathOrder.length).toBeGreaterThan(0);
+  });
+
+  it('agrees with a textbook Bellman–Ford on random boards', () => {
+    let cycles = 0;
+    for (let seed = 1; seed <= 40; seed++) {
+      const lines = randomBoard(seed, 6, 8, 0.3, seed % 2 === 0 ? 'fmwb' : 'fmw.......b');
+      const { board, result, validation, expectedCost } = run(lines, algorithm);
+      expect(validation, `seed ${seed}`).toEqual({ isValid: true, reason: null });
+      if (expectedCost === null) {
+        cycles++;
+        expect(result.negativeCycle?.length, `seed ${seed}`).toBeGreaterThan(0);
+      } else if (expectedCost === Infinity) {
+        expect(result.nodesInShortestPathOrder, `seed ${seed}`).toEqual([]);
+      } else {
+        expect(getPathCost(board.graph, result.nodesInShortestPathOrder), `seed ${seed}`).toBeCloseTo(expectedCost, 9);
+      }
+    }
+    // Both kinds of board must be covered for the comparison to mean anything
+    expect(cycles).toBeGreaterThan(0);
+    expect(cycles).toBeLessThan(40);
+  });
+});
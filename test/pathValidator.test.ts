@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { validateSearchResult } from '../algorithms/pathValidator';
+import { dijkstra } from '../algorithms/dijkstra';
+import { parseBoard } from './boards';
+
+const BOARD = [
+  'S..#.',
+  '.#.#.',
+  '.#...',
+  '...#F',
+];
+
+const NO_CYCLE = { optimalNegativeCycle: [], handlesNegativeCosts: false };
+
+// Validates a hand-written path against Dijkstra's optimum on the same board
+const validatePath = (cells: [number, number][], lines = BOARD) => {
+  const board = parseBoard(lines);
+  const reference = parseBoard(lines);
+  const optimal = dijkstra(reference.graph, reference.startNode, reference.finishNode).nodesInShortestPathOrder
+    .map(node => board.nodeAt(node.row, node.col));
+  const path = cells.map(([row, col]) => board.nodeAt(row, col));
+  return validateSearchResult(board.graph, [board.startNode], [board.finishNode],
+    { visitedNodesInOrder: path, nodesInShortestPathOrder: path }, optimal, NO_CYCLE);
+};
+
+describe('validateSearchResult', () => {
+  it('accepts an optimal path', () => {
+    expect(validatePath([[0, 0], [0, 1], [0, 2], [1, 2], [2, 2], [2, 3], [2, 4], [3, 4]])).toEqual({ isValid: true, reason: null });
+  });
+
+  it('rejects a path that is valid but longer than the optimum', () => {
+    const result = validatePath([[0, 0], [1, 0], [2, 0], [3, 0], [3, 1], [3, 2], [2, 2], [2, 3], [2, 4], [3, 4]]);
+    expect(result.isValid).toBe(false);
+    expect(result.reason).toBe('Path cost 9 does not match the optimum 7');
+  });
+
+  it('rejects paths through walls, across gaps or off the endpoints', () => {
+    expect(validatePath([[0, 0], [0, 1], [0, 2], [0, 3], [0, 4], [1, 4], [2, 4], [3, 4]]).reason).toBe('Path crosses a wall at (0, 3)');
+    expect(validatePath([[0, 0], [0, 1], [0, 2], [2, 2], [2, 3], [2, 4], [3, 4]]).reason).toBe('Path jumps from (0, 2) to (2, 2)');
+    expect(validatePath([[0, 1], [0, 2], [1, 2], [2, 2], [2, 3], [2, 4], [3, 4]]).reason).toBe('Path starts at (0, 1) instead of the start node');
+    expect(validatePath([[0, 0], [0, 1], [0, 2], [1, 2], [2, 2], [2, 3], [2, 4]]).reason).toBe('Path ends at (2, 4) instead of the finish node');
+  });
+
+  it('rejects a visit order that repeats a node', () => {
+    const board = parseBoard(BOARD);
+    const { startNode, nodeAt } = board;
+    const result = validateSearchResult(board.graph, [startNode], [board.finishNode],
+      { visitedNodesInOrder: [startNode, nodeAt(0, 1), startNode], nodesInShortestPathOrder: [] }, [], NO_CYCLE);
+    expect(result.reason).toBe('Visited (0, 0) more than once');
+  });
+
+  it('accepts no path only when the finish is unreachable', () => {
+    const walled = ['S.#.', '..#F'];
+    const board = parseBoard(walled);
+    const result = { visitedNodesInOrder: [], nodesInShortestPathOrder: [] };
+    expect(validateSearchResult(board.graph, [board.startNode], [board.finishNode], result, [], NO_CYCLE).isValid).toBe(true);
+    expect(validateSearchResult(board.graph, [board.startNode], [board.finishNode], result, [board.finishNode], NO_CYCLE).reason)
+      .toBe('No path returned, but the finish is reachable');
+  });
+
+  it('reports a search that gave up, and negative-cost boards for algorithms that assume none', () => {
+    const board = parseBoard(['S.bF']);
+    const empty = { visitedNodesInOrder: [], nodesInShortestPathOrder: [] };
+    expect(validateSearchResult(board.graph, [board.startNode], [board.finishNode], empty, [], NO_CYCLE).reason)
+      .toMatch(/^Boost cells have negative costs/);
+    expect(validateSearchResult(board.graph, [board.startNode], [board.finishNode], { ...empty, gaveUpAfter: 1200 }, [],
+      { optimalNegativeCycle: [], handlesNegativeCosts: true }).reason).toBe('Gave up after 1,200 expansions without reaching an answer');
+  });
+});
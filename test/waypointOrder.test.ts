@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { getOrderCost, heldKarp, nearestNeighbourTwoOpt, solveVisitingOrder } from '../algorithms/waypointOrder';
+
+// Seeded asymmetric cost matrix for k waypoints (index 0 start, k + 1 finish), with some pairs unreachable
+const randomCosts = (seed: number, k: number, unreachableShare = 0) => {
+  let state = seed;
+  const random = () => {
+    state = (Math.imul(state, 1103515245) + 12345) >>> 0;
+    return state / 4294967296;
+  };
+  return Array.from({ length: k + 2 }, (_, from) => Array.from({ length: k + 2 }, (_, to) => {
+    if (from === to) return 0;
+    return random() < unreachableShare ? Infinity : 1 + Math.floor(random() * 50);
+  }));
+};
+
+const permutations = (items: number[]): number[][] => items.length <= 1
+  ? [items]
+  : items.flatMap((item, i) => permutations([...items.slice(0, i), ...items.slice(i + 1)]).map(rest => [item, ...rest]));
+
+const bruteForceCost = (costs: number[][]) =>
+  Math.min(...permutations(Array.from({ length: costs.length - 2 }, (_, i) => i + 1)).map(order => getOrderCost(costs, order)));
+
+describe('waypoint visiting order', () => {
+  it('costs an order from the start, through each waypoint, to the finish', () => {
+    const costs = [
+      [0, 1, 10, 100],
+      [2, 0, 3, 30],
+      [20, 4, 0, 5],
+      [0, 0, 0, 0],
+    ];
+    expect(getOrderCost(costs, [1, 2])).toBe(1 + 3 + 5);
+    expect(getOrderCost(costs, [2, 1])).toBe(10 + 4 + 30);
+  });
+
+  it('Held–Karp matches a brute-force search over every order', () => {
+    for (let seed = 1; seed <= 60; seed++) {
+      const costs = randomCosts(seed, 1 + (seed % 7), seed % 3 === 0 ? 0.2 : 0);
+      const best = heldKarp(costs);
+      const optimum = bruteForceCost(costs);
+      expect(best.method).toBe('heldKarp');
+      expect(best.cost, `seed ${seed}`).toBe(optimum);
+      expect([...best.order].sort((a, b) => a - b)).toEqual(Array.from({ length: costs.length - 2 }, (_, i) => i + 1));
+      if (optimum !== Infinity) expect(getOrderCost(costs, best.order)).toBe(best.cost);
+    }
+  });
+
+  it('Held–Karp falls back to the numbered order when no route exists', () => {
+    const costs = randomCosts(7, 3);
+    costs.forEach(row => { row[4] = Infinity; });
+    expect(heldKarp(costs)).toEqual({ order: [1, 2, 3], cost: Infinity, method: 'heldKarp' });
+  });
+
+  it('nearest neighbour + 2-opt returns a complete order no segment reversal improves', () => {
+    for (let seed = 1; seed <= 40; seed++) {
+      const costs = randomCosts(seed, 3 + (seed % 9));
+      const route = nearestNeighbourTwoOpt(costs);
+      const k = costs.length - 2;
+      expect(route.method).toBe('nearestNeighbourTwoOpt');
+      expect([...route.order].sort((a, b) => a - b)).toEqual(Array.from({ length: k }, (_, i) => i + 1));
+      expect(route.cost).toBe(getOrderCost(costs, route.order));
+      for (let i = 0; i < k - 1; i++) {
+        for (let j = i + 1; j < k; j++) {
+          const reversed = [...route.order.slice(0, i), ...route.order.slice(i, j + 1).reverse(), ...route.order.slice(j + 1)];
+          expect(getOrderCost(costs, reversed)).toBeGreaterThanOrEqual(route.cost - 1e-9);
+        }
+      }
+      if (k <= 7) expect(route.cost).toBeGreaterThanOrEqual(bruteForceCost(costs));
+    }
+  });
+
+  it('solves exactly up to the waypoint limit, heuristically past it', () => {
+    expect(solveVisitingOrder(randomCosts(3, 4), 4).method).toBe('heldKarp');
+    expect(solveVisitingOrder(randomCosts(3, 5), 4).method).toBe('nearestNeighbourTwoOpt');
+  });
+});
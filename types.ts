@@ -3,18 +3,73 @@ export interface NodeData {
   col: number;
   isStart: boolean;
   isFinish: boolean;
+  // 1-based position in the waypoint order, null for cells that are not waypoints
+  waypointNumber: number | null;
   distance: number;
   isVisited: boolean;
   isWall: boolean;
+  weight: number;
   previousNode: NodeData | null;
   totalDistance: number;
   heuristicDistance: number;
 }
 
+export interface GridSize {
+  rows: number;
+  cols: number;
+}
+
 export interface GridStats {
   visitedNodes: number;
   shortestPathLength: number;
+  pathCost: number;
   timeTaken: number;
+  // Why the run failed validation (null when the path is valid and optimal)
+  validationError: string | null;
+  // Set when unordered waypoints were visited in a computed order
+  waypointRoute?: WaypointRoute;
+  // Set when the search stopped at a negative cycle instead of returning a path
+  negativeCycle?: NegativeCycleSummary;
+  // Set for iterative-deepening searches (IDA*, IDDFS)
+  iterativeDeepening?: IterativeDeepeningSummary;
+  // Set when the run repaired an earlier LPA* / D* Lite search after cell edits
+  replanning?: ReplanSummary;
+}
+
+export interface NegativeCycleSummary {
+  length: number;
+  cost: number;
+}
+
+export interface IterativeDeepeningSummary {
+  iterationCount: number;
+  // Expansions of a node that had already been expanded, in an earlier iteration or earlier in the same one
+  reexpansions: number;
+  // Longest the search stack got, which is all the memory these searches keep
+  peakStackDepth: number;
+}
+
+export interface ReplanSummary {
+  // Repairs of the same search so far, this one included
+  repairCount: number;
+  changedCells: number;
+  repairedNodes: number;
+  // Nodes the same board costs from scratch
+  dijkstraNodes: number;
+  astarNodes: number;
+}
+
+export type WaypointOrderMethod = 'heldKarp' | 'nearestNeighbourTwoOpt';
+
+export interface WaypointRoute {
+  // Waypoint numbers in the order they are visited
+  order: number[];
+  cost: number;
+  // Cost of visiting the waypoints in their numbered order
+  naiveCost: number;
+  method: WaypointOrderMethod;
+  // Pairwise searches run to build the cost matrix
+  searchCount: number;
 }
 
 export interface HistoryEntry extends GridStats {
@@ -28,5 +83,311 @@ export interface HistoryEntry extends GridStats {
   date: string;
 }
 
-export type DraggingState = 'start' | 'finish' | 'wall' | null;
-export type AlgorithmType = 'dijkstra' | 'astar' | 'greedyBfs' | 'bidirectionalSwarm' | 'bmssp';
\ No newline at end of file
+// 'marker' drags a waypoint or extra start/finish, 'paint' is a freehand/erase stroke, 'shape' a line or rectangle being dragged out
+export type DraggingState = 'start' | 'finish' | 'marker' | 'paint' | 'shape' | null;
+export type AlgorithmType = 'dijkstra' | 'astar' | 'greedyBfs' | 'bidirectionalSwarm' | 'bmssp' | 'bfs' | 'dfs' | 'jps' | 'bellmanFord' | 'spfa' | 'idaStar' | 'iddfs' | 'lpaStar' | 'dStarLite';
+export type MovementMode = 'fourWay' | 'eightWay' | 'eightWayNoCornerCutting';
+// Algorithms that can search from several starts to the nearest of several finishes
+export type MultiEndpointAlgorithmType = Extract<AlgorithmType, 'dijkstra' | 'bmssp' | 'bellmanFord' | 'spfa'>;
+// Algorithms that stay correct on boards with negative-cost (boost) cells
+export type NegativeCostAlgorithmType = Extract<AlgorithmType, 'bellmanFord' | 'spfa'>;
+// Algorithms that keep their search state and repair it after cell edits
+export type IncrementalAlgorithmType = Extract<AlgorithmType, 'lpaStar' | 'dStarLite'>;
+export type PriorityQueueType = 'binaryHeap' | 'pairingHeap' | 'sortedArray';
+export type MazeType =
+  | 'random'
+  | 'recursiveDivision'
+  | 'recursiveDivisionHorizontal'
+  | 'recursiveDivisionVertical'
+  | 'dfsBacktracker'
+  | 'prim'
+  | 'kruskal'
+  | 'eller'
+  | 'binaryTree'
+  | 'sidewinder';
+// A single wall placement or removal made while building a maze, in generation order
+export interface MazeStep {
+  row: number;
+  col: number;
+  isWall: boolean;
+  // Bulk setup (e.g. filling the board before carving) that is shown at once rather than cell by cell
+  instant: boolean;
+}
+
+export type TerrainType = 'forest' | 'mud' | 'water' | 'boost';
+export type BrushType = 'wall' | TerrainType;
+export type DrawingTool = 'draw' | 'erase' | 'line' | 'rectangle' | 'hollowRectangle' | 'fill' | 'waypoint' | 'extraStart' | 'extraFinish';
+// What a drawing tool writes into a cell
+export interface CellPaint {
+  isWall: boolean;
+  weight: number;
+}
+
+export interface TerrainDefinition {
+  label: string;
+  weight: number;
+  className: string;
+  snapshotColor: string;
+}
+
+/**
+ * The grid viewed as a graph. Every algorithm explores the board only through this
+ * interface, so topology (movement mode) and cost rules live in one place.
+ */
+export interface GridGraph {
+  grid: NodeData[][];
+  movement: MovementMode;
+  // Passable (non-wall) neighbours reachable in one step
+  getNeighbors: (node: NodeData) => NodeData[];
+  // Cost of stepping from `from` into the adjacent cell `to`
+  getCost: (from: NodeData, to: NodeData) => number;
+  // Admissible estimate of the remaining cost from `node` to `target`
+  getHeuristic: (node: NodeData, target: NodeData) => number;
+}
+
+export interface PathValidation {
+  isValid: boolean;
+  reason: string | null;
+}
+
+export interface AlgorithmResult {
+  visitedNodesInOrder: NodeData[];
+  nodesInShortestPathOrder: NodeData[];
+  // Algorithm-specific cells to draw in their own style (e.g. Jump Point Search's jump points)
+  highlights?: SearchHighlight[];
+  // A negative-cost cycle reachable from the start, in walking order (the last cell steps back to the first).
+  // When set there is no shortest path and nodesInShortestPathOrder is empty.
+  negativeCycle?: NodeData[];
+  // Iterative deepening only: each iteration's expansions, repeats included (visitedNodesInOrder lists each node once)
+  iterations?: SearchIteration[];
+  peakStackDepth?: number;
+  // Set when the search hit its expansion limit and stopped without an answer: how many nodes it had expanded
+  gaveUpAfter?: number;
+}
+
+export interface SearchIteration {
+  // The f-threshold (IDA*) or depth limit (IDDFS) the iteration searched within
+  bound: number;
+  expandedNodes: NodeData[];
+}
+
+export type SearchHighlightKind = 'jumpPoint' | 'prunedNeighbor';
+
+export interface SearchHighlight {
+  node: NodeData;
+  kind: SearchHighlightKind;
+  // Length of visitedNodesInOrder when it was recorded, so playback can interleave it with the visits
+  afterVisit: number;
+}
+
+// One start -> waypoint -> ... -> finish segment of a run, searched on its own
+export interface SearchLeg extends AlgorithmResult {
+  validation: PathValidation;
+  pathCost: number;
+  // Set when the leg repairs an earlier search: what that search left on the board, redrawn before the repair
+  repairOf?: RepairedSearch;
+}
+
+export interface RepairedSearch {
+  visitedNodes: NodeData[];
+  repairedNodes: NodeData[];
+}
+
+// One step of a recorded animation: the class it adds to (or removes from) a grid cell
+// and how long to wait before showing it
+export interface AnimationFrame {
+  row: number;
+  col: number;
+  // null marks a step with no visual change (e.g. the start node being visited)
+  className: string | null;
+  delayMs: number;
+  action?: 'add' | 'remove';
+}
+
+export interface PlaybackState {
+  frameIndex: number;
+  frameCount: number;
+  isPlaying: boolean;
+  speed: number;
+}
+
+export interface GridPosition {
+  row: number;
+  col: number;
+}
+
+// Compact, structured-clone friendly form of a grid; cells are indexed row * cols + col
+export interface SerializedGrid {
+  rows: number;
+  cols: number;
+  walls: Uint8Array;
+  weights: Float64Array;
+}
+
+export interface AlgorithmRunRequest {
+  grid: SerializedGrid;
+  start: GridPosition;
+  finish: GridPosition;
+  algorithm: AlgorithmType;
+  movement: MovementMode;
+  queueType: PriorityQueueType;
+  // Further endpoints for multi-source/multi-goal runs (the algorithm must be a MultiEndpointAlgorithmType)
+  extraStarts?: GridPosition[];
+  extraFinishes?: GridPosition[];
+}
+
+export interface SerializedSearchHighlight {
+  cell: number;
+  kind: SearchHighlightKind;
+  afterVisit: number;
+}
+
+export interface SerializedSearchIteration {
+  bound: number;
+  expanded: number[];
+}
+
+// Search result as cell indices, plus the ground-truth Dijkstra path used for the optimality check
+export interface SerializedAlgorithmResult {
+  visited: number[];
+  path: number[];
+  optimalPath: number[];
+  highlights: SerializedSearchHighlight[];
+  negativeCycle: number[];
+  // Cycle the ground-truth search found (boards with boost cells are checked by Bellman–Ford)
+  optimalNegativeCycle: number[];
+  iterations: SerializedSearchIteration[];
+  peakStackDepth: number;
+  gaveUpAfter: number | null;
+  startedAt: number;
+  finishedAt: number;
+  durationMs: number;
+}
+
+export type AlgorithmWorkerMessage =
+  | { type: 'progress'; expandedNodes: number }
+  | { type: 'result'; result: SerializedAlgorithmResult }
+  | { type: 'error'; message: string };
+
+export interface ReplanningStartRequest {
+  grid: SerializedGrid;
+  start: GridPosition;
+  finish: GridPosition;
+  algorithm: IncrementalAlgorithmType;
+  movement: MovementMode;
+  queueType: PriorityQueueType;
+}
+
+// A cell's new contents, by row-major index
+export interface SerializedCellEdit {
+  cell: number;
+  isWall: boolean;
+  weight: number;
+}
+
+export type ReplanningRequest =
+  | ({ type: 'start' } & ReplanningStartRequest)
+  | { type: 'edit'; edits: SerializedCellEdit[] };
+
+export interface SerializedRepairResult {
+  repaired: number[];
+  path: number[];
+  // Dijkstra's path on the edited board, which doubles as the ground truth
+  optimalPath: number[];
+  dijkstraVisitedCount: number;
+  astarVisitedCount: number;
+  startedAt: number;
+  finishedAt: number;
+  durationMs: number;
+}
+
+export type ReplanningWorkerMessage =
+  | { type: 'repaired'; result: SerializedRepairResult }
+  | { type: 'error'; message: string };
+
+// Dynamic simulation: an obstacle walking back and forth along a straight route of open cells
+export interface Patrol {
+  route: GridPosition[];
+  index: number;
+  direction: 1 | -1;
+}
+
+// Why the agent searched again: its first plan, an obstacle on its path, the target drifting, or no path last time
+export type ReplanReason = 'start' | 'pathBlocked' | 'targetMoved' | 'noPath';
+
+export interface ReplanLogEntry {
+  tick: number;
+  reason: ReplanReason;
+  agent: GridPosition;
+  target: GridPosition;
+  // The obstacle found standing on the old path
+  blockedAt?: GridPosition;
+  // Cells in the new path, start included; 0 when there is none
+  pathLength: number;
+  visitedNodes: number;
+  durationMs: number;
+}
+
+// A named board saved to the layout library; walls and terrain are row-major cell indices
+export interface GridLayout {
+  id: string;
+  name: string;
+  rows: number;
+  cols: number;
+  start: GridPosition;
+  finish: GridPosition;
+  walls: number[];
+  // [cell index, weight] for every non-default terrain cell
+  terrain: [number, number][];
+  savedAt: string;
+}
+
+// Shape of an exported layout file; version bumps whenever GridLayout changes incompatibly
+export interface LayoutFile {
+  version: number;
+  layouts: GridLayout[];
+}
+
+// A Moving AI benchmark map reduced to walls and open cells (row-major)
+export interface MovingAiMap {
+  name: string;
+  rows: number;
+  cols: number;
+  walls: Uint8Array;
+}
+
+// One start/goal pair from a Moving AI .scen file
+export interface MovingAiScenario {
+  index: number;
+  bucket: number;
+  mapName: string;
+  mapRows: number;
+  mapCols: number;
+  start: GridPosition;
+  goal: GridPosition;
+  optimalLength: number;
+}
+
+// Board restored from a shared link
+export interface SharedBoard {
+  layout: GridLayout;
+  markers: BoardMarkers;
+  algorithm: AlgorithmType;
+}
+
+// Cells marked on the board besides the main start and finish
+export interface BoardMarkers {
+  // Stops the route must pass through, in order
+  waypoints: GridPosition[];
+  // Further starts seeded into the same frontier, and further finishes the search may stop at (the nearest wins)
+  extraStarts: GridPosition[];
+  extraFinishes: GridPosition[];
+}
+
+// Board state kept on the undo/redo stacks
+export interface BoardSnapshot {
+  grid: SerializedGrid;
+  start: GridPosition;
+  finish: GridPosition;
+  markers: BoardMarkers;
+}
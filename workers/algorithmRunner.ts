@@ -0,0 +1,97 @@
+import { AlgorithmRunRequest, AlgorithmWorkerMessage, SerializedAlgorithmResult } from '../types';
+import { NEGATIVE_COST_RUN_TIMEOUT_MS } from '../constants';
+
+export type AlgorithmRunOutcome =
+  | { status: 'done'; result: SerializedAlgorithmResult }
+  | { status: 'cancelled' }
+  | { status: 'timeout' }
+  | { status: 'error'; message: string };
+
+export interface AlgorithmRun {
+  outcome: Promise<AlgorithmRunOutcome>;
+  cancel: () => void;
+}
+
+export interface AlgorithmRunOptions {
+  timeoutMs: number;
+  onProgress?: (expandedNodes: number) => void;
+}
+
+export interface AlgorithmWorker {
+  // One search at a time: wait for a run's outcome before starting the next
+  run: (request: AlgorithmRunRequest, options: AlgorithmRunOptions) => AlgorithmRun;
+  close: () => void;
+}
+
+/**
+ * A worker kept across several searches, so a batch (e.g. every pair of unordered waypoints) pays its
+ * startup once. A run that doesn't finish (cancel / timeout / error) terminates the worker, which is the
+ * only way to stop a synchronous search midway; the next run starts a fresh one. A timeout of 0 disables the limit.
+ */
+export const openAlgorithmWorker = (): AlgorithmWorker => {
+  let worker: Worker | null = null;
+
+  const run: AlgorithmWorker['run'] = (request, options) => {
+    const current = worker ?? new Worker(new URL('./algorithmWorker.ts', import.meta.url), { type: 'module' });
+    worker = current;
+    let settle: (outcome: AlgorithmRunOutcome) => void = () => {};
+    let timeoutId = 0;
+
+    const onMessage = (event: MessageEvent<AlgorithmWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') options.onProgress?.(message.expandedNodes);
+      else if (message.type === 'result') settle({ status: 'done', result: message.result });
+      else settle({ status: 'error', message: message.message });
+    };
+    const onError = (event: ErrorEvent) => settle({ status: 'error', message: event.message });
+
+    const outcome = new Promise<AlgorithmRunOutcome>(resolve => {
+      settle = (value) => {
+        clearTimeout(timeoutId);
+        current.removeEventListener('message', onMessage);
+        current.removeEventListener('error', onError);
+        if (value.status !== 'done') {
+          current.terminate();
+          if (worker === current) worker = null;
+        }
+        settle = () => {};
+        resolve(value);
+      };
+    });
+
+    current.addEventListener('message', onMessage);
+    current.addEventListener('error', onError);
+    if (options.timeoutMs > 0) {
+      timeoutId = window.setTimeout(() => settle({ status: 'timeout' }), options.timeoutMs);
+    }
+    current.postMessage(request);
+
+    return {
+      outcome,
+      cancel: () => settle({ status: 'cancelled' }),
+    };
+  };
+
+  return {
+    run,
+    close: () => {
+      worker?.terminate();
+      worker = null;
+    },
+  };
+};
+
+// Starts a single search in a fresh worker, terminated once the run settles
+export const runAlgorithmInWorker = (request: AlgorithmRunRequest, options: AlgorithmRunOptions): AlgorithmRun => {
+  const algorithmWorker = openAlgorithmWorker();
+  const run = algorithmWorker.run(request, options);
+  run.outcome.then(algorithmWorker.close);
+  return run;
+};
+
+// Algorithms that assume non-negative costs can loop forever on boards with boost cells (BMSSP and Bidirectional
+// Swarm do, around negative cycles), so those runs are always limited, even with the timeout switched off
+export const getRunTimeoutMs = (timeoutMs: number, isOutsideCostModel: boolean): number =>
+  isOutsideCostModel && (timeoutMs === 0 || timeoutMs > NEGATIVE_COST_RUN_TIMEOUT_MS) ? NEGATIVE_COST_RUN_TIMEOUT_MS : timeoutMs;
+
+export const OUTSIDE_COST_MODEL_TIMEOUT_HINT = 'Boost cells have negative costs, which it assumes never happen, so it may never finish on this board.';
@@ -0,0 +1,83 @@
+import { AlgorithmRunRequest, AlgorithmWorkerMessage, GridGraph, NodeData, SerializedGrid } from '../types';
+import { createGridGraph, hasNegativeCosts } from '../algorithms/gridGraph';
+import { ALGORITHMS, getMultiEndpointAlgorithm } from '../algorithms/registry';
+import { multiSourceDijkstra } from '../algorithms/dijkstra';
+import { multiSourceBellmanFord } from '../algorithms/bellmanFord';
+import { deserializeGrid, serializeHighlights, serializeIterations, toCellIndices } from './serialization';
+
+/**
+ * Runs a search off the UI thread. Receives a serialized grid, answers with a serialized result.
+ * Progress is reported from inside the search by counting neighbour expansions on the graph.
+ */
+
+const PROGRESS_INTERVAL = 2000;
+
+const ctx = self as unknown as Worker;
+
+const post = (message: AlgorithmWorkerMessage) => ctx.postMessage(message);
+
+const buildGraph = (serialized: SerializedGrid, request: AlgorithmRunRequest) => {
+  const grid = deserializeGrid(serialized);
+  const startNodes = [request.start, ...(request.extraStarts ?? [])].map(pos => grid[pos.row][pos.col]);
+  const finishNodes = [request.finish, ...(request.extraFinishes ?? [])].map(pos => grid[pos.row][pos.col]);
+  startNodes.forEach(node => { node.isStart = true; });
+  finishNodes.forEach(node => { node.isFinish = true; });
+  return { graph: createGridGraph(grid, request.movement), startNodes, finishNodes };
+};
+
+const withProgress = (graph: GridGraph): GridGraph => {
+  let expandedNodes = 0;
+  return {
+    ...graph,
+    getNeighbors: (node: NodeData) => {
+      expandedNodes++;
+      if (expandedNodes % PROGRESS_INTERVAL === 0) post({ type: 'progress', expandedNodes });
+      return graph.getNeighbors(node);
+    },
+  };
+};
+
+ctx.addEventListener('message', (event: MessageEvent<AlgorithmRunRequest>) => {
+  const request = event.data;
+  try {
+    const { graph, startNodes, finishNodes } = buildGraph(request.grid, request);
+    const multiEndpointSearch = startNodes.length > 1 || finishNodes.length > 1 ? getMultiEndpointAlgorithm(request.algorithm) : null;
+    const searchGraph = withProgress(graph);
+
+    const startedAt = Date.now();
+    const startTimePerf = performance.now();
+    const result = multiEndpointSearch
+      ? multiEndpointSearch(searchGraph, startNodes, finishNodes, request.queueType)
+      : ALGORITHMS[request.algorithm](searchGraph, startNodes[0], finishNodes[0], request.queueType);
+    const durationMs = performance.now() - startTimePerf;
+    const finishedAt = Date.now();
+
+    // Verify Shortest Path (Ground Truth Calculation) on an untouched copy of the board.
+    // Dijkstra is only exact without negative costs, so boards with boost cells are checked by Bellman–Ford.
+    const verify = buildGraph(request.grid, request);
+    const groundTruth = hasNegativeCosts(verify.graph.grid)
+      ? multiSourceBellmanFord(verify.graph, verify.startNodes, verify.finishNodes)
+      : multiSourceDijkstra(verify.graph, verify.startNodes, verify.finishNodes);
+
+    const cols = request.grid.cols;
+    post({
+      type: 'result',
+      result: {
+        visited: toCellIndices(result.visitedNodesInOrder, cols),
+        path: toCellIndices(result.nodesInShortestPathOrder, cols),
+        optimalPath: toCellIndices(groundTruth.nodesInShortestPathOrder, cols),
+        highlights: serializeHighlights(result.highlights ?? [], cols),
+        negativeCycle: toCellIndices(result.negativeCycle ?? [], cols),
+        optimalNegativeCycle: toCellIndices(groundTruth.negativeCycle ?? [], cols),
+        iterations: serializeIterations(result.iterations ?? [], cols),
+        peakStackDepth: result.peakStackDepth ?? 0,
+        gaveUpAfter: result.gaveUpAfter ?? null,
+        startedAt,
+        finishedAt,
+        durationMs,
+      },
+    });
+  } catch (e) {
+    post({ type: 'error', message: e instanceof Error ? e.message : String(e) });
+  }
+});
@@ -0,0 +1,66 @@
+import { ReplanningRequest, ReplanningStartRequest, ReplanningWorkerMessage, SerializedCellEdit, SerializedRepairResult } from '../types';
+
+export type ReplanOutcome =
+  | { status: 'done'; result: SerializedRepairResult }
+  | { status: 'closed' }
+  | { status: 'timeout' }
+  | { status: 'error'; message: string };
+
+export interface ReplanningSession {
+  // One repair at a time; a timeout ends the session, since the worker is the only way to stop the search
+  replan: (edits: SerializedCellEdit[], timeoutMs: number) => Promise<ReplanOutcome>;
+  close: () => void;
+}
+
+/**
+ * Starts an incremental search in a worker that stays alive for repairs, unlike the one-shot runs of
+ * runAlgorithmInWorker. A timeout of 0 disables the limit.
+ */
+export const openReplanningSession = (request: ReplanningStartRequest): ReplanningSession => {
+  const worker = new Worker(new URL('./replanningWorker.ts', import.meta.url), { type: 'module' });
+  const post = (message: ReplanningRequest) => worker.postMessage(message);
+  let pending: ((outcome: ReplanOutcome) => void) | null = null;
+  let timeoutId = 0;
+  let isClosed = false;
+
+  const settle = (outcome: ReplanOutcome) => {
+    clearTimeout(timeoutId);
+    const resolve = pending;
+    pending = null;
+    resolve?.(outcome);
+  };
+
+  const close = () => {
+    if (isClosed) return;
+    isClosed = true;
+    worker.terminate();
+    settle({ status: 'closed' });
+  };
+
+  worker.addEventListener('message', (event: MessageEvent<ReplanningWorkerMessage>) => {
+    const message = event.data;
+    if (message.type === 'repaired') settle({ status: 'done', result: message.result });
+    else settle({ status: 'error', message: message.message });
+  });
+  worker.addEventListener('error', (event) => settle({ status: 'error', message: event.message }));
+
+  post({ type: 'start', ...request });
+
+  return {
+    replan: (edits, timeoutMs) => new Promise<ReplanOutcome>(resolve => {
+      if (isClosed) {
+        resolve({ status: 'closed' });
+        return;
+      }
+      pending = resolve;
+      if (timeoutMs > 0) {
+        timeoutId = window.setTimeout(() => {
+          settle({ status: 'timeout' });
+          close();
+        }, timeoutMs);
+      }
+      post({ type: 'edit', edits });
+    }),
+    close,
+  };
+};
@@ -0,0 +1,97 @@
+import { GridPosition, NodeData, ReplanningRequest, ReplanningStartRequest, ReplanningWorkerMessage, SerializedGrid } from '../types';
+import { createGridGraph } from '../algorithms/gridGraph';
+import { createDStarLite, createLpaStar, IncrementalPlanner } from '../algorithms/incrementalSearch';
+import { dijkstra } from '../algorithms/dijkstra';
+import { astar } from '../algorithms/astar';
+import { PathfindingAlgorithm } from '../algorithms/registry';
+import { deserializeGrid, toCellIndices } from './serialization';
+
+/**
+ * Keeps an LPA* / D* Lite search alive between cell edits, so each repair starts from the state the last
+ * one left. Every repair is also compared against Dijkstra and A* searching the edited board from scratch.
+ */
+
+const ctx = self as unknown as Worker;
+
+const post = (message: ReplanningWorkerMessage) => ctx.postMessage(message);
+
+interface Session {
+  request: ReplanningStartRequest;
+  // Kept in step with the planner's grid, for the from-scratch runs
+  serialized: SerializedGrid;
+  grid: NodeData[][];
+  planner: IncrementalPlanner;
+}
+
+let session: Session | null = null;
+let startError: string | null = null;
+
+const start = (request: ReplanningStartRequest) => {
+  const grid = deserializeGrid(request.grid);
+  const graph = createGridGraph(grid, request.movement);
+  const startNode = grid[request.start.row][request.start.col];
+  const finishNode = grid[request.finish.row][request.finish.col];
+  const createPlanner = request.algorithm === 'dStarLite' ? createDStarLite : createLpaStar;
+  const planner = createPlanner(graph, startNode, finishNode, request.queueType);
+  planner.computeShortestPath();
+  session = { request, serialized: request.grid, grid, planner };
+};
+
+const runFromScratch = (algorithm: PathfindingAlgorithm, { serialized, request }: Session) => {
+  const grid = deserializeGrid(serialized);
+  const at = (pos: GridPosition) => grid[pos.row][pos.col];
+  return algorithm(createGridGraph(grid, request.movement), at(request.start), at(request.finish), request.queueType);
+};
+
+ctx.addEventListener('message', (event: MessageEvent<ReplanningRequest>) => {
+  const message = event.data;
+  if (message.type === 'start') {
+    // A failed start is reported by the first repair, which is the first message that gets an answer
+    try {
+      start(message);
+    } catch (e) {
+      startError = e instanceof Error ? e.message : String(e);
+    }
+    return;
+  }
+
+  try {
+    if (!session) throw new Error(startError ?? 'no search to repair');
+    const { serialized, grid, planner } = session;
+    const cols = serialized.cols;
+    const changedNodes = message.edits.map(({ cell, isWall, weight }) => {
+      serialized.walls[cell] = isWall ? 1 : 0;
+      serialized.weights[cell] = weight;
+      const node = grid[Math.floor(cell / cols)][cell % cols];
+      node.isWall = isWall;
+      node.weight = weight;
+      return node;
+    });
+
+    const startedAt = Date.now();
+    const startTimePerf = performance.now();
+    planner.updateCells(changedNodes);
+    const repairedNodes = planner.computeShortestPath();
+    const path = planner.getPath();
+    const durationMs = performance.now() - startTimePerf;
+    const finishedAt = Date.now();
+
+    const fromScratchDijkstra = runFromScratch(dijkstra, session);
+    const fromScratchAstar = runFromScratch(astar, session);
+    post({
+      type: 'repaired',
+      result: {
+        repaired: toCellIndices(repairedNodes, cols),
+        path: toCellIndices(path, cols),
+        optimalPath: toCellIndices(fromScratchDijkstra.nodesInShortestPathOrder, cols),
+        dijkstraVisitedCount: fromScratchDijkstra.visitedNodesInOrder.length,
+        astarVisitedCount: fromScratchAstar.visitedNodesInOrder.length,
+        startedAt,
+        finishedAt,
+        durationMs,
+      },
+    });
+  } catch (e) {
+    post({ type: 'error', message: e instanceof Error ? e.message : String(e) });
+  }
+});
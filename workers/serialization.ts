@@ -0,0 +1,65 @@
+import { NodeData, SearchHighlight, SearchIteration, SerializedGrid, SerializedSearchHighlight, SerializedSearchIteration } from '../types';
+
+export const serializeGrid = (grid: NodeData[][]): SerializedGrid => {
+  const rows = grid.length;
+  const cols = grid[0].length;
+  const walls = new Uint8Array(rows * cols);
+  const weights = new Float64Array(rows * cols);
+  for (const row of grid) {
+    for (const node of row) {
+      const index = node.row * cols + node.col;
+      walls[index] = node.isWall ? 1 : 0;
+      weights[index] = node.weight;
+    }
+  }
+  return { rows, cols, walls, weights };
+};
+
+// Rebuilds a fresh, unsearched grid (start/finish flags are set by the caller)
+export const deserializeGrid = ({ rows, cols, walls, weights }: SerializedGrid): NodeData[][] => {
+  const grid: NodeData[][] = [];
+  for (let row = 0; row < rows; row++) {
+    const currentRow: NodeData[] = [];
+    for (let col = 0; col < cols; col++) {
+      const index = row * cols + col;
+      currentRow.push({
+        row,
+        col,
+        isStart: false,
+        isFinish: false,
+        waypointNumber: null,
+        distance: Infinity,
+        totalDistance: Infinity,
+        heuristicDistance: Infinity,
+        isVisited: false,
+        isWall: walls[index] === 1,
+        weight: weights[index],
+        previousNode: null,
+      });
+    }
+    grid.push(currentRow);
+  }
+  return grid;
+};
+
+export const toCellIndices = (nodes: NodeData[], cols: number): number[] =>
+  nodes.map(node => node.row * cols + node.col);
+
+export const fromCellIndices = (indices: number[], grid: NodeData[][]): NodeData[] => {
+  const cols = grid[0].length;
+  return indices.map(index => grid[Math.floor(index / cols)][index % cols]);
+};
+
+export const serializeHighlights = (highlights: SearchHighlight[], cols: number): SerializedSearchHighlight[] =>
+  highlights.map(({ node, kind, afterVisit }) => ({ cell: node.row * cols + node.col, kind, afterVisit }));
+
+export const deserializeHighlights = (highlights: SerializedSearchHighlight[], grid: NodeData[][]): SearchHighlight[] => {
+  const cols = grid[0].length;
+  return highlights.map(({ cell, kind, afterVisit }) => ({ node: grid[Math.floor(cell / cols)][cell % cols], kind, afterVisit }));
+};
+
+export const serializeIterations = (iterations: SearchIteration[], cols: number): SerializedSearchIteration[] =>
+  iterations.map(({ bound, expandedNodes }) => ({ bound, expanded: toCellIndices(expandedNodes, cols) }));
+
+export const deserializeIterations = (iterations: SerializedSearchIteration[], grid: NodeData[][]): SearchIteration[] =>
+  iterations.map(({ bound, expanded }) => ({ bound, expandedNodes: fromCellIndices(expanded, grid) }));